@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { handleRequest } from './app';
+import { createLeaderboard } from './leaderboard';
+import { BoardEntry, createMemoryStore } from './store';
+
+const TODAY = 20100;
+
+const entry = (playerId: string, ticks: number): BoardEntry => ({
+  playerId,
+  name: playerId.toUpperCase(),
+  ticks,
+  resets: 1,
+  replay: '',
+  submittedAt: 0,
+});
+
+const createTestLeaderboard = () =>
+  createLeaderboard(createMemoryStore({ [TODAY]: [entry('b', 2400), entry('a', 1200), entry('c', 3600)] }), {
+    today: () => TODAY,
+  });
+
+describe('Leaderboard API - Boards', () => {
+  it('should list a board fastest first', async () => {
+    const response = await handleRequest(createTestLeaderboard(), 'GET', `/api/boards/${TODAY}?limit=2`);
+
+    expect(response).toEqual({
+      status: 200,
+      body: {
+        seed: TODAY,
+        total: 3,
+        entries: [
+          { rank: 1, name: 'A', timeMs: 10000, resets: 1 },
+          { rank: 2, name: 'B', timeMs: 20000, resets: 1 },
+        ],
+      },
+    });
+  });
+
+  it('should reject a limit that is not a number', async () => {
+    const response = await handleRequest(createTestLeaderboard(), 'GET', `/api/boards/${TODAY}?limit=lots`);
+    expect(response.status).toBe(400);
+  });
+
+  it("should report a player's place, or 404 without a run", async () => {
+    const leaderboard = createTestLeaderboard();
+
+    expect(await handleRequest(leaderboard, 'GET', `/api/boards/${TODAY}/players/c`)).toMatchObject({
+      status: 200,
+      body: { total: 3, entry: { rank: 3, name: 'C' } },
+    });
+    expect((await handleRequest(leaderboard, 'GET', `/api/boards/${TODAY}/players/zed`)).status).toBe(404);
+  });
+
+  it('should reject a player id with a broken escape', async () => {
+    const response = await handleRequest(createTestLeaderboard(), 'GET', `/api/boards/${TODAY}/players/%E0`);
+    expect(response).toEqual({ status: 400, body: { errors: ['Malformed player id'] } });
+  });
+
+  it('should never expose player ids', async () => {
+    const response = await handleRequest(createTestLeaderboard(), 'GET', `/api/boards/${TODAY}`);
+    expect(JSON.stringify(response.body)).not.toContain('playerId');
+  });
+});
+
+describe('Leaderboard API - Submissions', () => {
+  it('should reject a body that is not JSON', async () => {
+    const response = await handleRequest(createTestLeaderboard(), 'POST', '/api/scores', '{oops');
+    expect(response).toEqual({ status: 400, body: { errors: ['Body must be JSON'] } });
+  });
+
+  it('should pass on why a run was refused', async () => {
+    const body = JSON.stringify({ playerId: 'a', name: 'A', replay: 'garbage' });
+    const response = await handleRequest(createTestLeaderboard(), 'POST', '/api/scores', body);
+
+    expect(response.status).toBe(400);
+    expect(response.body).toMatchObject({ errors: [expect.stringContaining('Unreadable replay')] });
+  });
+
+  it('should answer unknown routes with 404', async () => {
+    expect((await handleRequest(createTestLeaderboard(), 'GET', '/api/scores')).status).toBe(404);
+    expect((await handleRequest(createTestLeaderboard(), 'DELETE', `/api/boards/${TODAY}`)).status).toBe(404);
+  });
+});
@@ -0,0 +1,112 @@
+import { IncomingMessage, Server, createServer } from 'node:http';
+import { ErrorResponse } from '../src/leaderboard';
+import { Leaderboard } from './leaderboard';
+
+/** Largest request body read (bytes); a long replay is a few KB */
+export const MAX_BODY_SIZE = 256 * 1024;
+
+export interface ApiResponse {
+  status: number;
+  body: unknown;
+}
+
+/**
+ * Route one API request. Kept free of node's http types so it can be
+ * called directly from tests, or from a fake fetch in the browser client's.
+ *
+ *   POST /api/scores                          submit a run
+ *   GET  /api/boards/:seed?limit=10           fastest runs on a board
+ *   GET  /api/boards/:seed/players/:playerId  one player's place
+ */
+export async function handleRequest(
+  leaderboard: Leaderboard,
+  method: string,
+  url: string,
+  body = ''
+): Promise<ApiResponse> {
+  const { pathname, searchParams } = new URL(url, 'http://localhost');
+  const boardMatch = pathname.match(/^\/api\/boards\/(\d+)(?:\/players\/([^/]+))?$/);
+
+  if (method === 'POST' && pathname === '/api/scores') {
+    let data: unknown;
+    try {
+      data = JSON.parse(body);
+    } catch {
+      return fail(400, 'Body must be JSON');
+    }
+
+    const result = await leaderboard.submit(data);
+    return result.ok ? { status: 201, body: result.rank } : { status: 400, body: { errors: result.errors } };
+  }
+
+  if (method === 'GET' && boardMatch) {
+    const seed = Number(boardMatch[1]);
+
+    if (boardMatch[2]) {
+      let playerId: string;
+      try {
+        playerId = decodeURIComponent(boardMatch[2]);
+      } catch {
+        return fail(400, 'Malformed player id');
+      }
+
+      const rank = await leaderboard.rank(seed, playerId);
+      return rank ? { status: 200, body: rank } : fail(404, 'No run on this board');
+    }
+
+    const limit = searchParams.has('limit') ? Number(searchParams.get('limit')) : undefined;
+    if (limit !== undefined && !Number.isInteger(limit)) return fail(400, 'limit must be a whole number');
+    return { status: 200, body: await leaderboard.board(seed, limit) };
+  }
+
+  return fail(404, `No route for ${method} ${pathname}`);
+}
+
+/**
+ * Serve the API over HTTP. Any origin may call it, since the game is
+ * usually served from a different port during development.
+ */
+export function createLeaderboardServer(leaderboard: Leaderboard): Server {
+  return createServer(async (request, response) => {
+    response.setHeader('Access-Control-Allow-Origin', '*');
+    response.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    response.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204).end();
+      return;
+    }
+
+    let reply: ApiResponse;
+    try {
+      const body = await readBody(request);
+      reply = body === null
+        ? fail(413, `Body is over ${MAX_BODY_SIZE} bytes`)
+        : await handleRequest(leaderboard, request.method ?? 'GET', request.url ?? '/', body);
+    } catch (error) {
+      console.error('Leaderboard request failed', error);
+      reply = fail(500, 'Internal error');
+    }
+
+    response.writeHead(reply.status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(reply.body));
+  });
+}
+
+function fail(status: number, error: string): ApiResponse {
+  const body: ErrorResponse = { errors: [error] };
+  return { status, body };
+}
+
+// Whole body as text, or null if it is too large
+async function readBody(request: IncomingMessage): Promise<string | null> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY_SIZE) return null;
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
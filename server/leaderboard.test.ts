@@ -0,0 +1,257 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { InputState } from '../src/physics';
+import { Maze } from '../src/maze';
+import { LevelConfig, buildLevel } from '../src/level';
+import { createSimulation, stepSimulation, SIM_CELL_SIZE, TICK_DT } from '../src/simulation';
+import { Replay, createRecorder, quantizeInput, serializeReplay } from '../src/replay';
+import { SUBMIT_WINDOW, createLeaderboard } from './leaderboard';
+import { createFileStore, createMemoryStore } from './store';
+
+const testConfig: LevelConfig = {
+  GRID_WIDTH: 4,
+  GRID_HEIGHT: 4,
+  GRAVITY: 1200,
+  FRICTION: 0.98,
+  BALL_RADIUS_RATIO: 0.3,
+  HOLE_RADIUS_RATIO: 0.2,
+  GOAL_RADIUS_RATIO: 0.3,
+  HOLE_COUNT: 0,
+};
+
+const TODAY = 20100;
+
+// Breadth-first route from the start cell to the goal
+const findRoute = (maze: Maze) => {
+  const key = (x: number, y: number) => `${x},${y}`;
+  const prev = new Map<string, [number, number] | null>([[key(maze.start.x, maze.start.y), null]]);
+  const queue: [number, number][] = [[maze.start.x, maze.start.y]];
+
+  while (queue.length > 0) {
+    const [x, y] = queue.shift()!;
+    const { walls } = maze.cells[y][x];
+    const moves: [boolean, number, number][] = [
+      [walls.north, x, y - 1],
+      [walls.east, x + 1, y],
+      [walls.south, x, y + 1],
+      [walls.west, x - 1, y],
+    ];
+    for (const [blocked, nx, ny] of moves) {
+      if (blocked || prev.has(key(nx, ny))) continue;
+      prev.set(key(nx, ny), [x, y]);
+      queue.push([nx, ny]);
+    }
+  }
+
+  const route: [number, number][] = [];
+  let at: [number, number] | null = [maze.goal.x, maze.goal.y];
+  while (at) {
+    route.unshift(at);
+    at = prev.get(key(at[0], at[1])) ?? null;
+  }
+  return route;
+};
+
+// Simple bot that steers the ball through the route cell by cell; `idle` ticks of no input first slow it down
+const recordWinningRun = (seed: number, idle = 0): Replay => {
+  const maze = buildLevel(seed, testConfig);
+  const sim = createSimulation(maze, testConfig);
+  const recorder = createRecorder(seed, testConfig);
+  const route = findRoute(maze);
+  let target = 1;
+
+  while (!sim.won && sim.tick < 10000) {
+    const [cx, cy] = route[Math.min(target, route.length - 1)];
+    const tx = (cx + 0.5) * SIM_CELL_SIZE;
+    const ty = (cy + 0.5) * SIM_CELL_SIZE;
+    const { ball } = sim.balls[0];
+    if (Math.hypot(tx - ball.x, ty - ball.y) < 10) target++;
+
+    const steer = (delta: number, velocity: number) => Math.max(-1, Math.min(1, delta / 30 - velocity / 200));
+    const input: InputState =
+      sim.tick < idle
+        ? { tiltX: 0, tiltY: 0 }
+        : quantizeInput({ tiltX: steer(tx - ball.x, ball.vx), tiltY: steer(ty - ball.y, ball.vy) });
+
+    recorder.record(sim.tick, input);
+    stepSimulation(sim, input);
+  }
+
+  return recorder.finish(sim.tick);
+};
+
+const createTestLeaderboard = (store = createMemoryStore()) => {
+  let clock = 1000;
+  return createLeaderboard(store, { config: testConfig, today: () => TODAY, now: () => clock++ });
+};
+
+describe('Leaderboard - Submissions', () => {
+  const replay = recordWinningRun(TODAY);
+
+  it('should rank a verified run using the simulated time', async () => {
+    const leaderboard = createTestLeaderboard();
+    const result = await leaderboard.submit({ playerId: 'p1', name: '  Ada  ', replay: serializeReplay(replay) });
+
+    expect(result).toEqual({
+      ok: true,
+      rank: {
+        seed: TODAY,
+        total: 1,
+        entry: { rank: 1, name: 'Ada', timeMs: Math.round(replay.ticks * TICK_DT * 1000), resets: 0 },
+      },
+    });
+  });
+
+  it('should refuse a run whose claimed time is wrong', async () => {
+    const leaderboard = createTestLeaderboard();
+    const forged = serializeReplay({ ...replay, ticks: replay.ticks - 60 });
+    const result = await leaderboard.submit({ playerId: 'p1', name: 'Ada', replay: forged });
+
+    expect(result.ok).toBe(false);
+    expect((await leaderboard.board(TODAY)).total).toBe(0);
+  });
+
+  it('should refuse runs with different settings', async () => {
+    const leaderboard = createTestLeaderboard();
+    const easier = serializeReplay({ ...replay, config: { ...testConfig, GRAVITY: 2400 } });
+    const result = await leaderboard.submit({ playerId: 'p1', name: 'Ada', replay: easier });
+
+    expect(result).toMatchObject({ ok: false, errors: [expect.stringContaining('GRAVITY')] });
+  });
+
+  it('should refuse runs on a board the client picked', async () => {
+    const leaderboard = createTestLeaderboard();
+    const farthest = serializeReplay({ ...replay, config: { ...replay.config, PLACEMENT: 'farthest' } });
+    const rerolled = serializeReplay({ ...replay, config: { ...replay.config, MIN_CLEARANCE: 0.4 } });
+
+    expect(await leaderboard.submit({ playerId: 'p1', name: 'Ada', replay: farthest })).toEqual({
+      ok: false,
+      errors: ['Config PLACEMENT is "farthest", expected unset'],
+    });
+    expect(await leaderboard.submit({ playerId: 'p1', name: 'Ada', replay: rerolled })).toEqual({
+      ok: false,
+      errors: ['Config MIN_CLEARANCE is 0.4, expected unset'],
+    });
+  });
+
+  it("should refuse runs on another generator than the day's", async () => {
+    const leaderboard = createTestLeaderboard();
+    const otherMaze = serializeReplay({ ...replay, config: { ...replay.config, GENERATOR_VERSION: 2 } });
+    const unversioned = serializeReplay({ ...replay, config: testConfig });
+
+    expect(await leaderboard.submit({ playerId: 'p1', name: 'Ada', replay: otherMaze })).toMatchObject({
+      ok: false,
+      errors: [expect.stringContaining('GENERATOR_VERSION')],
+    });
+    expect((await leaderboard.submit({ playerId: 'p1', name: 'Ada', replay: unversioned })).ok).toBe(true);
+  });
+
+  it('should only accept seeds within the submission window', async () => {
+    const leaderboard = createTestLeaderboard();
+    const future = serializeReplay(recordWinningRun(TODAY + 1));
+    const stale = serializeReplay(recordWinningRun(TODAY - SUBMIT_WINDOW - 1));
+    const late = serializeReplay(recordWinningRun(TODAY - SUBMIT_WINDOW));
+
+    expect((await leaderboard.submit({ playerId: 'p1', name: 'Ada', replay: future })).ok).toBe(false);
+    expect((await leaderboard.submit({ playerId: 'p1', name: 'Ada', replay: stale })).ok).toBe(false);
+    expect((await leaderboard.submit({ playerId: 'p1', name: 'Ada', replay: late })).ok).toBe(true);
+  });
+
+  it('should explain malformed submissions', async () => {
+    const leaderboard = createTestLeaderboard();
+
+    expect(await leaderboard.submit(null)).toEqual({ ok: false, errors: ['Expected a JSON object'] });
+    expect(await leaderboard.submit({ name: 'Ada' })).toEqual({
+      ok: false,
+      errors: ['Missing or invalid playerId', 'Missing replay'],
+    });
+    expect(await leaderboard.submit({ playerId: 'p1', name: 'Ada', replay: 'not a replay' })).toMatchObject({
+      ok: false,
+      errors: [expect.stringContaining('Unreadable replay')],
+    });
+  });
+});
+
+describe('Leaderboard - Ranking', () => {
+  const fast = serializeReplay(recordWinningRun(TODAY));
+  const slow = serializeReplay(recordWinningRun(TODAY, 60));
+
+  it('should order players by time, earlier submissions first on ties', async () => {
+    const leaderboard = createTestLeaderboard();
+    await leaderboard.submit({ playerId: 'slow', name: 'Slow', replay: slow });
+    await leaderboard.submit({ playerId: 'fast', name: 'Fast', replay: fast });
+    await leaderboard.submit({ playerId: 'tie', name: 'Tie', replay: fast });
+
+    const board = await leaderboard.board(TODAY);
+
+    expect(board.total).toBe(3);
+    expect(board.entries.map((entry) => [entry.rank, entry.name])).toEqual([
+      [1, 'Fast'],
+      [2, 'Tie'],
+      [3, 'Slow'],
+    ]);
+  });
+
+  it("should keep only each player's fastest run", async () => {
+    const leaderboard = createTestLeaderboard();
+    await leaderboard.submit({ playerId: 'p1', name: 'Ada', replay: fast });
+    await leaderboard.submit({ playerId: 'p1', name: 'Ada', replay: slow });
+
+    const board = await leaderboard.board(TODAY);
+    expect(board.total).toBe(1);
+    expect(board.entries[0].timeMs).toBe(Math.round(recordWinningRun(TODAY).ticks * TICK_DT * 1000));
+  });
+
+  it('should keep the faster run when one player submits twice at once', async () => {
+    const leaderboard = createTestLeaderboard();
+    await Promise.all([
+      leaderboard.submit({ playerId: 'p1', name: 'Ada', replay: fast }),
+      leaderboard.submit({ playerId: 'p1', name: 'Ada', replay: slow }),
+    ]);
+
+    const board = await leaderboard.board(TODAY);
+    expect(board.total).toBe(1);
+    expect(board.entries[0].timeMs).toBe(Math.round(recordWinningRun(TODAY).ticks * TICK_DT * 1000));
+  });
+
+  it('should limit the rows returned but report the total', async () => {
+    const leaderboard = createTestLeaderboard();
+    for (const playerId of ['a', 'b', 'c']) {
+      await leaderboard.submit({ playerId, name: playerId, replay: fast });
+    }
+
+    const board = await leaderboard.board(TODAY, 2);
+    expect(board.entries).toHaveLength(2);
+    expect(board.total).toBe(3);
+  });
+
+  it("should look up a player's place", async () => {
+    const leaderboard = createTestLeaderboard();
+    await leaderboard.submit({ playerId: 'fast', name: 'Fast', replay: fast });
+    await leaderboard.submit({ playerId: 'slow', name: 'Slow', replay: slow });
+
+    expect((await leaderboard.rank(TODAY, 'slow'))?.entry.rank).toBe(2);
+    expect(await leaderboard.rank(TODAY, 'nobody')).toBeNull();
+    expect(await leaderboard.rank(TODAY - 1, 'fast')).toBeNull();
+  });
+});
+
+describe('Leaderboard - File store', () => {
+  it('should keep boards across restarts', async () => {
+    const path = join(await mkdtemp(join(tmpdir(), 'leaderboard-')), 'boards.json');
+    const replay = serializeReplay(recordWinningRun(TODAY));
+
+    await createTestLeaderboard(createFileStore(path)).submit({ playerId: 'p1', name: 'Ada', replay });
+    const reopened = createTestLeaderboard(createFileStore(path));
+
+    expect((await reopened.board(TODAY)).entries.map((entry) => entry.name)).toEqual(['Ada']);
+    expect(JSON.parse(await readFile(path, 'utf8'))[TODAY]).toHaveLength(1);
+  });
+
+  it('should start empty when the file does not exist yet', async () => {
+    const path = join(await mkdtemp(join(tmpdir(), 'leaderboard-')), 'missing', 'boards.json');
+    expect((await createTestLeaderboard(createFileStore(path)).board(TODAY)).total).toBe(0);
+  });
+});
@@ -0,0 +1,145 @@
+import { DAILY_CONFIG, LevelConfig } from '../src/level';
+import { Replay, deserializeReplay } from '../src/replay';
+import { TICK_DT } from '../src/simulation';
+import { newestAcceptedDay } from '../src/schedule';
+import { generatorVersionFor } from '../src/seed';
+import { compareConfig, verifyRun } from '../src/verifier';
+import { BoardResponse, LeaderboardEntry, RankResponse, cleanName } from '../src/leaderboard';
+import { BoardEntry, LeaderboardStore } from './store';
+
+/** Days after a puzzle that its runs are still accepted, for runs queued while offline */
+export const SUBMIT_WINDOW = 7;
+
+/** Most rows one board request can ask for */
+export const MAX_BOARD_LIMIT = 100;
+
+/** Longest player id accepted (clients send a UUID) */
+const MAX_PLAYER_ID_LENGTH = 64;
+
+export interface LeaderboardOptions {
+  config?: LevelConfig; // Settings every run must have used (defaults to the daily puzzle's)
+  today?: () => number; // Newest daily seed open for submissions
+  now?: () => number; // Wall clock (ms since epoch)
+}
+
+export type SubmitResult = { ok: true; rank: RankResponse } | { ok: false; errors: string[] };
+
+/**
+ * Daily boards keyed by seed. Runs are only ranked once their replay has
+ * been re-simulated to the goal with the official settings.
+ */
+export function createLeaderboard(store: LeaderboardStore, options: LeaderboardOptions = {}) {
+  const config = options.config ?? DAILY_CONFIG;
+  // A few minutes' grace past the rollover, for players whose clocks run fast
+  const today = options.today ?? (() => newestAcceptedDay(Date.now()));
+  const now = options.now ?? Date.now;
+
+  const ranked = async (seed: number) => {
+    const board = await store.getBoard(seed);
+    return board.sort((a, b) => a.ticks - b.ticks || a.submittedAt - b.submittedAt);
+  };
+
+  const leaderboard = {
+    /**
+     * Check and rank a run. Keeps only the player's fastest run per board.
+     */
+    async submit(data: unknown): Promise<SubmitResult> {
+      const parsed = parseSubmission(data);
+      if ('errors' in parsed) return { ok: false, errors: parsed.errors };
+      const { playerId, name, replay, encoded } = parsed;
+
+      const current = today();
+      if (replay.seed > current || replay.seed < current - SUBMIT_WINDOW) {
+        return { ok: false, errors: [`Seed ${replay.seed} isn't open for submissions`] };
+      }
+
+      // The board is rebuilt from the official settings, on the generator the day went
+      // live with; the replay only picks its orientation and must match in everything else
+      const official: LevelConfig = {
+        ...config,
+        GENERATOR_VERSION: generatorVersionFor(replay.seed),
+        ...(replay.config.TRANSPOSE !== undefined && { TRANSPOSE: replay.config.TRANSPOSE }),
+      };
+      const mismatches = compareConfig(replay.seed, replay.config, official);
+      if (mismatches.length > 0) return { ok: false, errors: mismatches };
+
+      const check = verifyRun(replay.seed, official, replay.inputs, { claimedTicks: replay.ticks });
+      if (!check.valid) return { ok: false, errors: check.errors };
+
+      // The store only keeps it if it beats the player's previous run
+      const entry: BoardEntry = {
+        playerId,
+        name,
+        ticks: check.ticks,
+        resets: check.resets,
+        replay: encoded,
+        submittedAt: now(),
+      };
+      await store.putEntry(replay.seed, entry);
+
+      return { ok: true, rank: (await leaderboard.rank(replay.seed, playerId))! };
+    },
+
+    /**
+     * The fastest `limit` runs on a board
+     */
+    async board(seed: number, limit = 10): Promise<BoardResponse> {
+      const board = await ranked(seed);
+      const count = Math.max(0, Math.min(limit, MAX_BOARD_LIMIT));
+
+      return { seed, total: board.length, entries: board.slice(0, count).map(toPublicEntry) };
+    },
+
+    /**
+     * Where a player's best run sits on a board, or null if they have none
+     */
+    async rank(seed: number, playerId: string): Promise<RankResponse | null> {
+      const board = await ranked(seed);
+      const index = board.findIndex((entry) => entry.playerId === playerId);
+      if (index < 0) return null;
+
+      return { seed, total: board.length, entry: toPublicEntry(board[index], index) };
+    },
+  };
+
+  return leaderboard;
+}
+
+export type Leaderboard = ReturnType<typeof createLeaderboard>;
+
+// Player ids stay private so nobody can post under someone else's
+function toPublicEntry(entry: BoardEntry, index: number): LeaderboardEntry {
+  return {
+    rank: index + 1,
+    name: entry.name,
+    timeMs: Math.round(entry.ticks * TICK_DT * 1000),
+    resets: entry.resets,
+  };
+}
+
+function parseSubmission(
+  data: unknown
+): { playerId: string; name: string; replay: Replay; encoded: string } | { errors: string[] } {
+  if (typeof data !== 'object' || data === null) return { errors: ['Expected a JSON object'] };
+  const { playerId, name, replay } = data as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof playerId !== 'string' || playerId.length === 0 || playerId.length > MAX_PLAYER_ID_LENGTH) {
+    errors.push('Missing or invalid playerId');
+  }
+  if (typeof name !== 'string') errors.push('Missing name');
+  if (typeof replay !== 'string') errors.push('Missing replay');
+  if (errors.length > 0) return { errors };
+
+  let decoded: Replay;
+  try {
+    decoded = deserializeReplay(replay as string);
+  } catch (error) {
+    return { errors: [`Unreadable replay: ${(error as Error).message}`] };
+  }
+  if (!Number.isInteger(decoded.seed) || typeof decoded.config !== 'object' || decoded.config === null) {
+    return { errors: ['Replay is missing its seed or settings'] };
+  }
+
+  return { playerId: playerId as string, name: cleanName(name as string), replay: decoded, encoded: replay as string };
+}
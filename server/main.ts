@@ -0,0 +1,22 @@
+import { createLeaderboard } from './leaderboard';
+import { createLeaderboardServer } from './app';
+import { createFileStore, createMemoryStore } from './store';
+
+/**
+ * Local leaderboard server.
+ *
+ *   npm run server                          boards in memory
+ *   LEADERBOARD_FILE=data/boards.json npm run server
+ *
+ * PORT picks the port (default 8787). Point the game at it with
+ * ?leaderboard=http://localhost:8787
+ */
+const port = Number(process.env.PORT ?? 8787);
+const file = process.env.LEADERBOARD_FILE;
+
+const store = file ? createFileStore(file) : createMemoryStore();
+const server = createLeaderboardServer(createLeaderboard(store));
+
+server.listen(port, () => {
+  console.info(`Leaderboard listening on http://localhost:${port} (${file ? `saving to ${file}` : 'in memory'})`);
+});
@@ -0,0 +1,86 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+/**
+ * A player's best verified run on one day's board
+ */
+export interface BoardEntry {
+  playerId: string;
+  name: string;
+  ticks: number; // Completion time in simulation ticks, from re-simulating the replay
+  resets: number;
+  replay: string; // As submitted, so the run can be watched or checked again
+  submittedAt: number; // ms since epoch; earlier runs win ties
+}
+
+/**
+ * Where boards are kept. Swap implementations without touching the ranking code.
+ */
+export interface LeaderboardStore {
+  getBoard(seed: number): Promise<BoardEntry[]>;
+  /**
+   * Replace the player's previous entry if this run is faster, checking and
+   * writing in one step so concurrent submissions can't undo each other.
+   * Resolves with whether the entry was kept.
+   */
+  putEntry(seed: number, entry: BoardEntry): Promise<boolean>;
+}
+
+/**
+ * Boards held in memory, gone when the process exits. For tests and quick local runs.
+ */
+export function createMemoryStore(boards: Record<string, BoardEntry[]> = {}): LeaderboardStore {
+  return {
+    async getBoard(seed) {
+      return (boards[seed] ?? []).map((entry) => ({ ...entry }));
+    },
+
+    async putEntry(seed, entry) {
+      const board = boards[seed] ?? [];
+      const existing = board.find((other) => other.playerId === entry.playerId);
+      if (existing && existing.ticks <= entry.ticks) return false;
+
+      boards[seed] = [...board.filter((other) => other !== existing), { ...entry }];
+      return true;
+    },
+  };
+}
+
+/**
+ * Boards in a single JSON file, read on first use and rewritten after every
+ * change. Writes go through a temporary file so a crash can't leave it half written.
+ */
+export function createFileStore(path: string): LeaderboardStore {
+  let loaded: Promise<LeaderboardStore> | null = null;
+  let boards: Record<string, BoardEntry[]> = {};
+  let writing = Promise.resolve();
+
+  const load = () =>
+    (loaded ??= readFile(path, 'utf8').then(
+      (text) => createMemoryStore((boards = JSON.parse(text))),
+      (error) => {
+        if (error.code !== 'ENOENT') throw error;
+        return createMemoryStore(boards);
+      }
+    ));
+
+  const save = async () => {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(`${path}.tmp`, JSON.stringify(boards));
+    await rename(`${path}.tmp`, path);
+  };
+
+  return {
+    async getBoard(seed) {
+      return (await load()).getBoard(seed);
+    },
+
+    async putEntry(seed, entry) {
+      if (!(await (await load()).putEntry(seed, entry))) return false;
+      // One write at a time, in order, so the file always ends up with the latest boards
+      writing = writing.then(save, save);
+      await writing;
+      return true;
+    },
+  };
+}
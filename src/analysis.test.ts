@@ -0,0 +1,198 @@
+import { describe, it, expect } from 'vitest';
+import { Config } from './physics';
+import { Maze, Cell, generateMaze } from './maze';
+import { analyzeMaze, solveMaze } from './analysis';
+import { LevelConfig, buildLevel, placeCheckpoints } from './level';
+
+// Open grid surrounded by walls
+const createTestMaze = (size: number): Maze => {
+  const cells: Cell[][] = [];
+  for (let y = 0; y < size; y++) {
+    cells[y] = [];
+    for (let x = 0; x < size; x++) {
+      cells[y][x] = {
+        x,
+        y,
+        walls: { north: y === 0, east: x === size - 1, south: y === size - 1, west: x === 0 },
+      };
+    }
+  }
+  return {
+    width: size,
+    height: size,
+    cells,
+    holes: [],
+    goal: { x: size - 1, y: size - 1 },
+    start: { x: 0, y: 0 },
+  };
+};
+
+// Single corridor along the top row
+const createCorridor = (length: number): Maze => {
+  const maze = createTestMaze(length);
+  for (let x = 0; x < length; x++) {
+    maze.cells[0][x].walls.south = true;
+    if (maze.cells[1]) maze.cells[1][x].walls.north = true;
+  }
+  maze.goal = { x: length - 1, y: 0 };
+  return maze;
+};
+
+const testConfig: Config = {
+  GRID_WIDTH: 8,
+  GRID_HEIGHT: 8,
+  GRAVITY: 1200,
+  FRICTION: 0.98,
+  BALL_RADIUS_RATIO: 0.3,
+  HOLE_RADIUS_RATIO: 0.2,
+  GOAL_RADIUS_RATIO: 0.3,
+};
+
+describe('Analysis - Solution path', () => {
+  it('should find the shortest route through open cells', () => {
+    const maze = createTestMaze(3);
+    const path = solveMaze(maze, { x: 0, y: 0 }, { x: 2, y: 2 });
+
+    expect(path).toHaveLength(5);
+    expect(path[0]).toEqual({ x: 0, y: 0 });
+    expect(path[4]).toEqual({ x: 2, y: 2 });
+  });
+
+  it('should return an empty path when the goal is walled off', () => {
+    const maze = createTestMaze(3);
+    maze.cells[2][2].walls.north = true;
+    maze.cells[2][2].walls.west = true;
+    maze.cells[1][2].walls.south = true;
+    maze.cells[2][1].walls.east = true;
+
+    const analysis = analyzeMaze(maze, testConfig);
+
+    expect(analysis.path).toEqual([]);
+    expect(analysis.solvable).toBe(false);
+  });
+
+  it('should find a route without revisiting cells', () => {
+    const maze = generateMaze(20000, 8, 8, 16);
+    const path = solveMaze(maze, { x: 0, y: 0 }, maze.goal);
+    const unique = new Set(path.map((p) => `${p.x},${p.y}`));
+
+    expect(path.length).toBeGreaterThan(0);
+    expect(unique.size).toBe(path.length);
+  });
+});
+
+describe('Analysis - Hole clearance', () => {
+  it('should block a corridor when a centred hole leaves no room', () => {
+    const maze = createCorridor(3);
+    maze.holes = [{ x: 1, y: 0 }];
+
+    // Gap each side: 0.5 - 0.25 (hole) - 0.3 (ball) = -0.05
+    const analysis = analyzeMaze(maze, { ...testConfig, HOLE_RADIUS_RATIO: 0.25 });
+
+    expect(analysis.hazards).toHaveLength(1);
+    expect(analysis.hazards[0].onPath).toBe(true);
+    expect(analysis.minClearance).toBeCloseTo(-0.05);
+    expect(analysis.solvable).toBe(false);
+  });
+
+  it('should leave room past an offset hole', () => {
+    const maze = createCorridor(3);
+    maze.holes = [{ x: 1, y: 0, offsetX: 0, offsetY: 0.25 }];
+
+    const analysis = analyzeMaze(maze, testConfig);
+
+    // Above the hole: 0.75 - 0.2 - 0.3 = 0.25
+    expect(analysis.minClearance).toBeCloseTo(0.25);
+    expect(analysis.solvable).toBe(true);
+  });
+
+  it('should report holes in open cells beside the path', () => {
+    const maze = createCorridor(3);
+    maze.cells[0][1].walls.south = false;
+    maze.cells[1][1].walls.north = false;
+    maze.holes = [{ x: 1, y: 1, offsetX: 0, offsetY: -0.3 }];
+
+    const analysis = analyzeMaze(maze, testConfig);
+
+    expect(analysis.hazards).toHaveLength(1);
+    expect(analysis.hazards[0].onPath).toBe(false);
+    expect(analysis.hazards[0].clearance).toBeCloseTo(0);
+    expect(analysis.minClearance).toBe(Infinity);
+  });
+});
+
+describe('Analysis - Difficulty', () => {
+  it('should count dead ends', () => {
+    const maze = createCorridor(3);
+    // Only the two ends of the corridor; the open area below has none
+    expect(analyzeMaze(maze, testConfig).deadEnds).toBe(2);
+  });
+
+  it('should rate holes on the path as harder', () => {
+    const empty = createCorridor(4);
+    const holed = createCorridor(4);
+    holed.holes = [{ x: 1, y: 0 }, { x: 2, y: 0, offsetX: 0, offsetY: 0.2 }];
+
+    const easy = analyzeMaze(empty, testConfig).difficulty;
+    const hard = analyzeMaze(holed, testConfig).difficulty;
+
+    expect(hard).toBeGreaterThan(easy);
+    expect(hard).toBeLessThanOrEqual(100);
+  });
+});
+
+describe('Analysis - Re-rolling unsolvable seeds', () => {
+  const levelConfig: LevelConfig = { ...testConfig, HOLE_COUNT: 16 };
+
+  it('should keep the original board when no threshold is set', () => {
+    expect(buildLevel(20000, levelConfig)).toEqual(generateMaze(20000, 8, 8, 16));
+  });
+
+  it('should only produce boards that pass the threshold', () => {
+    for (let seed = 20000; seed < 20020; seed++) {
+      const maze = buildLevel(seed, { ...levelConfig, MIN_CLEARANCE: 0 });
+      expect(analyzeMaze(maze, testConfig).solvable).toBe(true);
+    }
+  });
+
+  it('should be deterministic', () => {
+    const config = { ...levelConfig, MIN_CLEARANCE: 0.1 };
+    expect(buildLevel(20005, config)).toEqual(buildLevel(20005, config));
+  });
+});
+
+describe('Analysis - Checkpoints', () => {
+  it('should spread checkpoints evenly along the solution', () => {
+    const corridor = createCorridor(10);
+
+    expect(placeCheckpoints(corridor, 2)).toEqual([
+      { x: 3, y: 0 },
+      { x: 6, y: 0 },
+    ]);
+  });
+
+  it('should move checkpoints off cells with holes', () => {
+    const corridor = createCorridor(10);
+    corridor.holes = [{ x: 3, y: 0 }];
+
+    expect(placeCheckpoints(corridor, 1)[0]).toEqual({ x: 5, y: 0 });
+    expect(placeCheckpoints(corridor, 2)[0]).toEqual({ x: 4, y: 0 });
+  });
+
+  it('should never use the start or goal', () => {
+    const checkpoints = placeCheckpoints(createCorridor(3), 5);
+    expect(checkpoints).toEqual([{ x: 1, y: 0 }]);
+  });
+
+  it('should only add checkpoints when configured', () => {
+    const config: LevelConfig = { ...testConfig, HOLE_COUNT: 16 };
+    const maze = buildLevel(20000, { ...config, CHECKPOINTS: 3 });
+    const path = solveMaze(maze, { x: 0, y: 0 }, maze.goal);
+
+    expect(buildLevel(20000, config).checkpoints).toBeUndefined();
+    expect(maze.checkpoints).toHaveLength(3);
+    for (const checkpoint of maze.checkpoints!) {
+      expect(path).toContainEqual(checkpoint);
+    }
+  });
+});
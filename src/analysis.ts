@@ -0,0 +1,209 @@
+import { Cell, Direction, Hole, Maze } from './maze';
+import { Config } from './physics';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface HoleHazard {
+  hole: Hole;
+  onPath: boolean; // Hole sits in a cell the solution passes through
+  clearance: number; // Free gap left for the ball centre, in cell units (negative = blocked)
+}
+
+export interface MazeAnalysis {
+  path: Point[]; // Cells from start to goal, empty if unreachable
+  pathLength: number;
+  deadEnds: number;
+  hazards: HoleHazard[]; // Holes on or next to the path
+  minClearance: number; // Tightest gap along the path (Infinity if no holes on it)
+  difficulty: number; // 0 (trivial) to 100 (brutal)
+  solvable: boolean;
+}
+
+/** Step to the neighbouring cell through each side */
+export const DIRECTIONS: Record<Direction, { dx: number; dy: number }> = {
+  north: { dx: 0, dy: -1 },
+  east: { dx: 1, dy: 0 },
+  south: { dx: 0, dy: 1 },
+  west: { dx: -1, dy: 0 },
+};
+
+/**
+ * Open neighbours of a cell (no wall between them)
+ */
+export function getOpenNeighbors(maze: Maze, cell: Cell): Cell[] {
+  const neighbors: Cell[] = [];
+
+  for (const wall of Object.keys(DIRECTIONS) as Direction[]) {
+    if (cell.walls[wall]) continue;
+    const { dx, dy } = DIRECTIONS[wall];
+    const row = maze.cells[cell.y + dy];
+    const next = row && row[cell.x + dx];
+    if (next) neighbors.push(next);
+  }
+
+  return neighbors;
+}
+
+/**
+ * Shortest route through the cells from `from` to `to` (breadth-first)
+ */
+export function solveMaze(maze: Maze, from: Point, to: Point): Point[] {
+  const key = (x: number, y: number) => `${x},${y}`;
+  const previous = new Map<string, Cell | null>([[key(from.x, from.y), null]]);
+  const queue: Cell[] = [maze.cells[from.y][from.x]];
+
+  while (queue.length > 0) {
+    const cell = queue.shift()!;
+    if (cell.x === to.x && cell.y === to.y) break;
+
+    for (const next of getOpenNeighbors(maze, cell)) {
+      if (previous.has(key(next.x, next.y))) continue;
+      previous.set(key(next.x, next.y), cell);
+      queue.push(next);
+    }
+  }
+
+  if (!previous.has(key(to.x, to.y))) return [];
+
+  const path: Point[] = [];
+  let at: Cell | null = maze.cells[to.y][to.x];
+  while (at) {
+    path.unshift({ x: at.x, y: at.y });
+    at = previous.get(key(at.x, at.y)) ?? null;
+  }
+  return path;
+}
+
+/**
+ * Analyse how hard a maze is to roll through and whether it can be done at all.
+ *
+ * Clearance is approximate: for each hole on the path we look at the
+ * gap between the hole's rim and the cell edges across the direction of
+ * travel, less the ball radius where that edge is a wall.
+ */
+export function analyzeMaze(maze: Maze, config: Config, minClearance = 0): MazeAnalysis {
+  const path = solveMaze(maze, maze.start, maze.goal);
+  const ballRadius = config.BALL_RADIUS_RATIO;
+  const holeRadius = config.HOLE_RADIUS_RATIO;
+
+  const pathIndex = new Map(path.map((p, i) => [`${p.x},${p.y}`, i]));
+  const hazards: HoleHazard[] = [];
+
+  for (const hole of maze.holes) {
+    const index = pathIndex.get(`${hole.x},${hole.y}`);
+
+    if (index !== undefined) {
+      const axes = travelAxes(path, index);
+      const cell = maze.cells[hole.y][hole.x];
+      const clearance = Math.min(
+        ...axes.map((axis) => gapPastHole(cell, hole, axis, ballRadius, holeRadius))
+      );
+      hazards.push({ hole, onPath: true, clearance });
+      continue;
+    }
+
+    // Holes in open cells beside the path only threaten wide turns
+    const cell = maze.cells[hole.y][hole.x];
+    const nearby = getOpenNeighbors(maze, cell).filter((n) => pathIndex.has(`${n.x},${n.y}`));
+    if (nearby.length > 0) {
+      const clearance = Math.min(...nearby.map((n) => distanceToEdge(hole, n, holeRadius)));
+      hazards.push({ hole, onPath: false, clearance });
+    }
+  }
+
+  let deadEnds = 0;
+  for (const row of maze.cells) {
+    for (const cell of row) {
+      if (getOpenNeighbors(maze, cell).length === 1) deadEnds++;
+    }
+  }
+
+  const onPath = hazards.filter((h) => h.onPath);
+  const tightest = onPath.length > 0 ? Math.min(...onPath.map((h) => h.clearance)) : Infinity;
+  const solvable = path.length > 0 && tightest >= minClearance;
+
+  return {
+    path,
+    pathLength: path.length,
+    deadEnds,
+    hazards,
+    minClearance: tightest,
+    difficulty: scoreDifficulty(maze, path.length, deadEnds, hazards, ballRadius),
+    solvable,
+  };
+}
+
+/**
+ * Axes the ball travels along through a path cell: entering and leaving
+ */
+function travelAxes(path: Point[], index: number): ('horizontal' | 'vertical')[] {
+  const axes = new Set<'horizontal' | 'vertical'>();
+  for (const other of [path[index - 1], path[index + 1]]) {
+    if (!other) continue;
+    axes.add(other.x !== path[index].x ? 'horizontal' : 'vertical');
+  }
+  return [...axes];
+}
+
+/**
+ * Widest gap the ball centre can use to pass a hole, in cell units
+ */
+function gapPastHole(
+  cell: Cell,
+  hole: Hole,
+  axis: 'horizontal' | 'vertical',
+  ballRadius: number,
+  holeRadius: number
+): number {
+  // Hole centre across the direction of travel, relative to the cell
+  const across = axis === 'horizontal' ? 0.5 + (hole.offsetY || 0) : 0.5 + (hole.offsetX || 0);
+  const nearWall = axis === 'horizontal' ? cell.walls.north : cell.walls.west;
+  const farWall = axis === 'horizontal' ? cell.walls.south : cell.walls.east;
+
+  const before = across - holeRadius - (nearWall ? ballRadius : 0);
+  const after = (farWall ? 1 - ballRadius : 1) - (across + holeRadius);
+
+  return Math.max(before, after);
+}
+
+/**
+ * Distance from a hole's rim to the edge it shares with a neighbouring cell
+ */
+function distanceToEdge(hole: Hole, neighbor: Point, holeRadius: number): number {
+  const hx = 0.5 + (hole.offsetX || 0);
+  const hy = 0.5 + (hole.offsetY || 0);
+
+  if (neighbor.x > hole.x) return 1 - hx - holeRadius;
+  if (neighbor.x < hole.x) return hx - holeRadius;
+  if (neighbor.y > hole.y) return 1 - hy - holeRadius;
+  return hy - holeRadius;
+}
+
+/**
+ * Blend path length, hole pressure and dead ends into a 0-100 score
+ */
+function scoreDifficulty(
+  maze: Maze,
+  pathLength: number,
+  deadEnds: number,
+  hazards: HoleHazard[],
+  ballRadius: number
+): number {
+  const cellCount = maze.width * maze.height;
+
+  // A hole is fully threatening when the gap is no wider than the ball
+  let pressure = 0;
+  for (const hazard of hazards) {
+    const threat = Math.max(0, Math.min(1, 1 - hazard.clearance / (2 * ballRadius)));
+    pressure += hazard.onPath ? threat : threat * 0.25;
+  }
+
+  const lengthScore = pathLength / cellCount;
+  const holeScore = Math.min(1, pressure / 4);
+  const deadEndScore = Math.min(1, (deadEnds / cellCount) * 4);
+
+  return Math.round(100 * (0.4 * lengthScore + 0.45 * holeScore + 0.15 * deadEndScore));
+}
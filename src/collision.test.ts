@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest';
+import { Body, buildWallSegments, collideCircles, getSegmentsAt, getWallSegments, moveCircle } from './collision';
+import { Maze, Cell } from './maze';
+
+const createTestMaze = (width: number, height: number): Maze => {
+  const cells: Cell[][] = [];
+  for (let y = 0; y < height; y++) {
+    cells[y] = [];
+    for (let x = 0; x < width; x++) {
+      cells[y][x] = {
+        x,
+        y,
+        walls: { north: false, east: false, south: false, west: false },
+      };
+    }
+  }
+  return { width, height, cells, holes: [], goal: { x: width - 1, y: height - 1 }, start: { x: 0, y: 0 } };
+};
+
+const CELL = 100;
+const RADIUS = 30;
+
+describe('Collision - Wall segments', () => {
+  it('should outline an open maze with its four edges', () => {
+    const segments = buildWallSegments(createTestMaze(3, 2));
+
+    expect(segments).toHaveLength(4);
+    expect(segments).toContainEqual({ x1: 0, y1: 0, x2: 3, y2: 0 });
+    expect(segments).toContainEqual({ x1: 3, y1: 0, x2: 3, y2: 2 });
+  });
+
+  it('should merge walls running through several cells', () => {
+    const maze = createTestMaze(4, 3);
+    for (let x = 0; x < 3; x++) maze.cells[0][x].walls.south = true;
+
+    expect(buildWallSegments(maze)).toContainEqual({ x1: 0, y1: 1, x2: 3, y2: 1 });
+  });
+
+  it('should pick up a wall set on either side', () => {
+    const maze = createTestMaze(3, 3);
+    maze.cells[1][1].walls.west = true;
+    maze.cells[1][1].walls.north = true;
+
+    const segments = buildWallSegments(maze);
+
+    expect(segments).toContainEqual({ x1: 1, y1: 1, x2: 1, y2: 2 });
+    expect(segments).toContainEqual({ x1: 1, y1: 1, x2: 2, y2: 1 });
+  });
+
+  it('should build segments once per maze', () => {
+    const maze = createTestMaze(3, 3);
+    expect(getWallSegments(maze)).toBe(getWallSegments(maze));
+  });
+});
+
+describe('Collision - Response', () => {
+  const maze = createTestMaze(4, 4);
+  maze.cells[0][1].walls.east = true;
+  maze.cells[1][1].walls.east = true;
+  const segments = buildWallSegments(maze);
+
+  it('should not tunnel through a wall at high speed', () => {
+    const ball: Body = { x: 50, y: 100, vx: 100000, vy: 0 };
+
+    moveCircle(ball, RADIUS, segments, CELL, 1 / 120);
+
+    expect(ball.x).toBeLessThanOrEqual(200 - RADIUS);
+    expect(ball.vx).toBe(0);
+  });
+
+  it('should bounce back with restitution', () => {
+    const ball: Body = { x: 150, y: 100, vx: 600, vy: 0 };
+
+    const contacts = moveCircle(ball, RADIUS, segments, CELL, 0.1, 0.5);
+
+    expect(ball.vx).toBeCloseTo(-300);
+    expect(ball.x).toBeLessThan(200 - RADIUS);
+    expect(contacts[0]).toMatchObject({ nx: -1, speed: 600 });
+  });
+
+  it('should not bounce slow impacts so a resting ball settles', () => {
+    const ball: Body = { x: 200 - RADIUS - 0.01, y: 100, vx: 20, vy: 0 };
+
+    moveCircle(ball, RADIUS, segments, CELL, 0.01, 0.5);
+
+    expect(ball.vx).toBe(0);
+  });
+
+  it('should slide along a wall it is pushed into', () => {
+    const ball: Body = { x: 200 - RADIUS - 1, y: 50, vx: 300, vy: 300 };
+
+    moveCircle(ball, RADIUS, segments, CELL, 0.1);
+
+    expect(ball.vx).toBe(0);
+    expect(ball.vy).toBe(300);
+    expect(ball.y).toBeCloseTo(80);
+  });
+
+  it('should roll past the seam between cells without catching', () => {
+    // Pressed against the wall, rolling down across the row boundary at y=100
+    const ball: Body = { x: 200 - RADIUS, y: 60, vx: 10, vy: 400 };
+
+    moveCircle(ball, RADIUS, segments, CELL, 0.2);
+
+    expect(ball.y).toBeCloseTo(140);
+    expect(ball.vy).toBe(400);
+  });
+
+  it('should stop against the rounded end of a wall', () => {
+    // Heading straight for the bottom end of the wall at (200, 200)
+    const ball: Body = { x: 200, y: 300, vx: 0, vy: -1000 };
+
+    moveCircle(ball, RADIUS, segments, CELL, 0.2);
+
+    expect(ball.y).toBeCloseTo(200 + RADIUS);
+    expect(ball.vy).toBe(0);
+  });
+
+  it('should push out a ball that starts inside a wall', () => {
+    const ball: Body = { x: 190, y: 100, vx: 0, vy: 0 };
+
+    moveCircle(ball, RADIUS, segments, CELL, 0.01);
+
+    expect(ball.x).toBeCloseTo(200 - RADIUS);
+  });
+});
+
+describe('Collision - Gates and doors', () => {
+  it('should let a ball through a gate one way only', () => {
+    const maze = createTestMaze(3, 1);
+    maze.cells[0][0].tile = { type: 'gate', side: 'east' };
+    const segments = buildWallSegments(maze);
+
+    const out: Body = { x: 50, y: 50, vx: 1000, vy: 0 };
+    moveCircle(out, RADIUS, segments, CELL, 0.1);
+    expect(out.x).toBeCloseTo(150);
+
+    const back: Body = { x: 150, y: 50, vx: -1000, vy: 0 };
+    moveCircle(back, RADIUS, segments, CELL, 0.1);
+    expect(back.x).toBeGreaterThanOrEqual(100 + RADIUS);
+    expect(back.vx).toBe(0);
+  });
+
+  it('should only block a doorway while the door is shut', () => {
+    const maze = createTestMaze(3, 1);
+    maze.cells[0][0].tile = { type: 'door', side: 'east', period: 2, phase: 0 };
+    const walls = getWallSegments(maze).length;
+
+    expect(getSegmentsAt(maze, 0.5)).toHaveLength(walls + 1);
+    expect(getSegmentsAt(maze, 1.5)).toHaveLength(walls);
+  });
+});
+
+describe('Collision - Ball on ball', () => {
+  it('should leave balls that are apart alone', () => {
+    const a: Body = { x: 100, y: 100, vx: 10, vy: 0 };
+    const b: Body = { x: 200, y: 100, vx: 0, vy: 0 };
+
+    expect(collideCircles(a, b, RADIUS)).toBeNull();
+    expect(a.vx).toBe(10);
+  });
+
+  it('should push overlapping balls apart evenly', () => {
+    const a: Body = { x: 100, y: 100, vx: 0, vy: 0 };
+    const b: Body = { x: 140, y: 100, vx: 0, vy: 0 };
+
+    collideCircles(a, b, RADIUS);
+
+    expect(a.x).toBeCloseTo(90);
+    expect(b.x).toBeCloseTo(150);
+  });
+
+  it('should pass momentum on in a head-on hit', () => {
+    const a: Body = { x: 100, y: 100, vx: 200, vy: 0 };
+    const b: Body = { x: 159, y: 100, vx: 0, vy: 0 };
+
+    collideCircles(a, b, RADIUS, 1);
+
+    expect(a.vx).toBeCloseTo(0);
+    expect(b.vx).toBeCloseTo(200);
+  });
+
+  it('should separate balls stacked on the same spot', () => {
+    const a: Body = { x: 100, y: 100, vx: 0, vy: 0 };
+    const b: Body = { x: 100, y: 100, vx: 0, vy: 0 };
+
+    collideCircles(a, b, RADIUS);
+
+    expect(b.x - a.x).toBeCloseTo(RADIUS * 2);
+  });
+});
@@ -0,0 +1,400 @@
+import { Cell, Direction, Maze, Tile } from './maze';
+import { DIRECTIONS } from './analysis';
+import { isDoorClosed } from './tiles';
+
+/**
+ * Straight run of wall, in cell units (multiply by cellSize for world space)
+ */
+export interface Segment {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  oneWay?: { nx: number; ny: number }; // Only blocks a ball on the side this normal points to
+}
+
+export interface Body {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+}
+
+export interface Contact {
+  nx: number; // Unit normal pointing out of the wall, towards the ball
+  ny: number;
+  speed: number; // Approach speed along the normal (0 for resting contacts)
+}
+
+/** Move/collide rounds per step; more only matters when wedged into corners */
+const MAX_ITERATIONS = 4;
+
+/** Gap kept between ball and wall after a hit, in cells */
+const SKIN = 1e-5;
+
+/** Impacts slower than this (cells/s) don't bounce, so a resting ball settles */
+const MIN_BOUNCE_SPEED = 0.5;
+
+const segmentCache = new WeakMap<Maze, Segment[]>();
+const doorCache = new WeakMap<Maze, Cell[]>();
+
+type DoorTile = Extract<Tile, { type: 'door' }>;
+
+/**
+ * All walls of the maze, including the outer boundary, with collinear
+ * neighbours merged so there are no seams to catch on
+ */
+export function buildWallSegments(maze: Maze): Segment[] {
+  const segments: Segment[] = [];
+  const { width, height, cells } = maze;
+
+  // Horizontal wall lines, top edge of row y (y = height is the bottom edge)
+  for (let y = 0; y <= height; y++) {
+    let start: number | null = null;
+    for (let x = 0; x <= width; x++) {
+      const wall =
+        x < width &&
+        (y === 0 || y === height || cells[y - 1][x].walls.south || cells[y][x].walls.north);
+      if (wall && start === null) start = x;
+      if (!wall && start !== null) {
+        segments.push({ x1: start, y1: y, x2: x, y2: y });
+        start = null;
+      }
+    }
+  }
+
+  // Vertical wall lines, left edge of column x
+  for (let x = 0; x <= width; x++) {
+    let start: number | null = null;
+    for (let y = 0; y <= height; y++) {
+      const wall =
+        y < height &&
+        (x === 0 || x === width || cells[y][x - 1].walls.east || cells[y][x].walls.west);
+      if (wall && start === null) start = y;
+      if (!wall && start !== null) {
+        segments.push({ x1: x, y1: start, x2: x, y2: y });
+        start = null;
+      }
+    }
+  }
+
+  // One-way gates block from outside the cell they belong to
+  for (const cell of maze.cells.flat()) {
+    if (cell.tile?.type === 'gate') {
+      segments.push(sideSegment(cell.x, cell.y, cell.tile.side, true));
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Wall segments for a maze, built on first use. Mazes are treated as
+ * immutable once play starts.
+ */
+export function getWallSegments(maze: Maze): Segment[] {
+  let segments = segmentCache.get(maze);
+  if (!segments) {
+    segments = buildWallSegments(maze);
+    segmentCache.set(maze, segments);
+  }
+  return segments;
+}
+
+/**
+ * Everything solid at `time` seconds into the run: the fixed walls plus
+ * any doors that are currently shut
+ */
+export function getSegmentsAt(maze: Maze, time: number): Segment[] {
+  const walls = getWallSegments(maze);
+  let doors = doorCache.get(maze);
+  if (!doors) {
+    doors = maze.cells.flat().flatMap((cell) => (cell.tile?.type === 'door' ? [cell] : []));
+    doorCache.set(maze, doors);
+  }
+  if (doors.length === 0) return walls;
+
+  const closed = doors
+    .filter((cell) => cell.tile?.type === 'door' && isDoorClosed(cell.tile, time))
+    .map((cell) => sideSegment(cell.x, cell.y, (cell.tile as DoorTile).side, false));
+  return [...walls, ...closed];
+}
+
+/**
+ * Edge of a cell as a segment; one-way edges face out of the cell
+ */
+function sideSegment(x: number, y: number, side: Direction, oneWay: boolean): Segment {
+  const { dx, dy } = DIRECTIONS[side];
+  // Centre of the edge, then half a cell either way along it
+  const cx = x + 0.5 + dx / 2;
+  const cy = y + 0.5 + dy / 2;
+  const segment: Segment = { x1: cx - dy / 2, y1: cy - dx / 2, x2: cx + dy / 2, y2: cy + dx / 2 };
+  return oneWay ? { ...segment, oneWay: { nx: dx, ny: dy } } : segment;
+}
+
+/**
+ * Move a circle by its velocity for `dt`, stopping at walls instead of
+ * passing through them. On contact the velocity into the wall is reflected
+ * (scaled by restitution) and the rest is kept, so the ball slides along.
+ * Returns the contacts made, hardest first.
+ */
+export function moveCircle(
+  body: Body,
+  radius: number,
+  segments: Segment[],
+  cellSize: number,
+  dt: number,
+  restitution = 0
+): Contact[] {
+  const contacts: Contact[] = [];
+  const minBounceSpeed = MIN_BOUNCE_SPEED * cellSize;
+  let remaining = dt;
+
+  for (let i = 0; i < MAX_ITERATIONS && remaining > 0; i++) {
+    const dx = body.vx * remaining;
+    const dy = body.vy * remaining;
+    const hit = sweep(body.x, body.y, dx, dy, radius, segments, cellSize);
+
+    if (!hit) {
+      body.x += dx;
+      body.y += dy;
+      remaining = 0;
+      break;
+    }
+
+    // Advance to the contact, leaving a hair of clearance
+    body.x += dx * hit.t + hit.nx * SKIN * cellSize;
+    body.y += dy * hit.t + hit.ny * SKIN * cellSize;
+    remaining *= 1 - hit.t;
+
+    const contact = respond(body, hit.nx, hit.ny, restitution, minBounceSpeed);
+    if (contact) contacts.push(contact);
+  }
+
+  // Anything still overlapping (spawned inside a wall, out of iterations)
+  // is pushed back out
+  for (const segment of segments) {
+    const push = penetration(body.x, body.y, radius, segment, cellSize);
+    if (!push) continue;
+
+    body.x += push.nx * push.depth;
+    body.y += push.ny * push.depth;
+    const contact = respond(body, push.nx, push.ny, 0, minBounceSpeed);
+    if (contact) contacts.push(contact);
+  }
+
+  return contacts.sort((a, b) => b.speed - a.speed);
+}
+
+/**
+ * Remove (or reflect) the part of the velocity heading into the wall
+ */
+function respond(
+  body: Body,
+  nx: number,
+  ny: number,
+  restitution: number,
+  minBounceSpeed: number
+): Contact | null {
+  const vn = body.vx * nx + body.vy * ny;
+  if (vn >= 0) return null;
+
+  const bounce = -vn > minBounceSpeed ? restitution : 0;
+  body.vx -= (1 + bounce) * vn * nx;
+  body.vy -= (1 + bounce) * vn * ny;
+
+  return { nx, ny, speed: -vn };
+}
+
+/**
+ * Earliest fraction of the move (dx, dy) at which the circle touches any
+ * segment. Each segment is treated as a capsule: the segment grown by the
+ * radius, with round caps at the ends.
+ */
+function sweep(
+  x: number,
+  y: number,
+  dx: number,
+  dy: number,
+  radius: number,
+  segments: Segment[],
+  cellSize: number
+): { t: number; nx: number; ny: number } | null {
+  // Broad phase: box around the whole move
+  const minX = Math.min(x, x + dx) - radius;
+  const maxX = Math.max(x, x + dx) + radius;
+  const minY = Math.min(y, y + dy) - radius;
+  const maxY = Math.max(y, y + dy) + radius;
+
+  let best: { t: number; nx: number; ny: number } | null = null;
+
+  for (const segment of segments) {
+    const x1 = segment.x1 * cellSize;
+    const y1 = segment.y1 * cellSize;
+    const x2 = segment.x2 * cellSize;
+    const y2 = segment.y2 * cellSize;
+
+    if (Math.max(x1, x2) < minX || Math.min(x1, x2) > maxX) continue;
+    if (Math.max(y1, y2) < minY || Math.min(y1, y2) > maxY) continue;
+
+    // Gates have no ends to catch on, and let the ball out from behind
+    const side = sweepSide(x, y, dx, dy, radius, x1, y1, x2, y2);
+    const candidates = segment.oneWay
+      ? [side && side.nx === segment.oneWay.nx && side.ny === segment.oneWay.ny ? side : null]
+      : [side, sweepCap(x, y, dx, dy, radius, x1, y1), sweepCap(x, y, dx, dy, radius, x2, y2)];
+
+    for (const hit of candidates) {
+      if (hit && (!best || hit.t < best.t)) best = hit;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Circle against the flat side of a segment
+ */
+function sweepSide(
+  x: number,
+  y: number,
+  dx: number,
+  dy: number,
+  radius: number,
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number
+): { t: number; nx: number; ny: number } | null {
+  const length = Math.hypot(x2 - x1, y2 - y1);
+  if (length === 0) return null;
+
+  const tx = (x2 - x1) / length;
+  const ty = (y2 - y1) / length;
+  let nx = -ty;
+  let ny = tx;
+
+  // Face the normal towards the ball (or against the motion if exactly on the line)
+  let distance = (x - x1) * nx + (y - y1) * ny;
+  const side = distance !== 0 ? Math.sign(distance) : -Math.sign(dx * nx + dy * ny);
+  if (side === 0) return null;
+  nx *= side;
+  ny *= side;
+  distance *= side;
+
+  const approach = dx * nx + dy * ny;
+  if (approach >= 0) return null;
+
+  // Already touching counts as a hit at the start of the move
+  const t = Math.max(0, (radius - distance) / approach);
+  if (t > 1) return null;
+
+  // Must land between the ends; beyond them the caps take over
+  const along = (x + dx * t - x1) * tx + (y + dy * t - y1) * ty;
+  if (along < 0 || along > length) return null;
+
+  return { t, nx, ny };
+}
+
+/**
+ * Circle against the round end of a segment
+ */
+function sweepCap(
+  x: number,
+  y: number,
+  dx: number,
+  dy: number,
+  radius: number,
+  cx: number,
+  cy: number
+): { t: number; nx: number; ny: number } | null {
+  const mx = x - cx;
+  const my = y - cy;
+  const a = dx * dx + dy * dy;
+  const b = mx * dx + my * dy;
+  const c = mx * mx + my * my - radius * radius;
+
+  // Moving away (or not moving)
+  if (a === 0 || b >= 0) return null;
+
+  let t = 0;
+  if (c > 0) {
+    const discriminant = b * b - a * c;
+    if (discriminant < 0) return null;
+    t = (-b - Math.sqrt(discriminant)) / a;
+    if (t > 1) return null;
+  }
+
+  const hx = mx + dx * t;
+  const hy = my + dy * t;
+  const distance = Math.hypot(hx, hy);
+  if (distance === 0) return null;
+
+  return { t, nx: hx / distance, ny: hy / distance };
+}
+
+/**
+ * How far the circle overlaps a segment, and which way to push it out
+ */
+function penetration(
+  x: number,
+  y: number,
+  radius: number,
+  segment: Segment,
+  cellSize: number
+): { nx: number; ny: number; depth: number } | null {
+  const x1 = segment.x1 * cellSize;
+  const y1 = segment.y1 * cellSize;
+  const x2 = segment.x2 * cellSize;
+  const y2 = segment.y2 * cellSize;
+
+  const sx = x2 - x1;
+  const sy = y2 - y1;
+  const lengthSq = sx * sx + sy * sy;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((x - x1) * sx + (y - y1) * sy) / lengthSq)) : 0;
+
+  const ox = x - (x1 + t * sx);
+  const oy = y - (y1 + t * sy);
+  const distance = Math.hypot(ox, oy);
+
+  // Centre on the wall (give or take rounding): no way to tell which side it belongs on
+  if (distance >= radius || distance < SKIN * cellSize) return null;
+
+  // Past a gate (or squeezing out through it): nothing to push against
+  if (segment.oneWay && (ox * segment.oneWay.nx + oy * segment.oneWay.ny <= 0 || t === 0 || t === 1)) {
+    return null;
+  }
+
+  return { nx: ox / distance, ny: oy / distance, depth: radius - distance };
+}
+
+/**
+ * Separate two overlapping balls of equal mass and exchange the part of
+ * their velocity along the line between them (scaled by restitution)
+ */
+export function collideCircles(a: Body, b: Body, radius: number, restitution = 0): Contact | null {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const distance = Math.hypot(dx, dy);
+  if (distance >= radius * 2) return null;
+
+  // Stacked exactly on top of each other (e.g. respawned together): split sideways
+  const nx = distance > 0 ? dx / distance : 1;
+  const ny = distance > 0 ? dy / distance : 0;
+  const overlap = (radius * 2 - distance) / 2;
+  a.x -= nx * overlap;
+  a.y -= ny * overlap;
+  b.x += nx * overlap;
+  b.y += ny * overlap;
+
+  // Closing speed along the normal; nothing to exchange if already parting
+  const closing = (a.vx - b.vx) * nx + (a.vy - b.vy) * ny;
+  if (closing <= 0) return { nx, ny, speed: 0 };
+
+  const impulse = ((1 + restitution) * closing) / 2;
+  a.vx -= impulse * nx;
+  a.vy -= impulse * ny;
+  b.vx += impulse * nx;
+  b.vy += impulse * ny;
+
+  return { nx, ny, speed: closing };
+}
@@ -0,0 +1,223 @@
+import { Maze } from './maze';
+import { Point } from './analysis';
+import { RenderConfig, renderEditor, setupCanvas } from './renderer';
+import {
+  EditorTool,
+  checkLevel,
+  cloneMaze,
+  createBlankMaze,
+  findHole,
+  moveHole,
+  pickWall,
+  placeHole,
+  removeHole,
+  setGoal,
+  setStart,
+  toggleWall,
+} from './editor';
+import { encodeMaze, parseMaze, stringifyMaze } from './maze-file';
+import { copyResult } from './share';
+
+/** Pointer travel (cell units) before pressing a hole counts as dragging it */
+const DRAG_THRESHOLD = 0.1;
+
+/**
+ * What the editor asks the game to do when switching to and from a test run
+ */
+export interface EditorCallbacks {
+  play: (maze: Maze) => void; // Start a run on a copy of the level
+  stop: () => void; // Stop the run and hand the canvas back
+}
+
+/**
+ * Point-and-click editing of a level on the game canvas, with the controls
+ * in the #editor panel
+ */
+export class LevelEditor {
+  private maze: Maze;
+  private tool: EditorTool = 'wall';
+  private drag: { index: number; from: Point; moved: boolean } | null = null;
+  private editing = true;
+  private cellSize = 0;
+  private canvas: HTMLCanvasElement;
+  private config: RenderConfig;
+  private callbacks: EditorCallbacks;
+
+  constructor(canvas: HTMLCanvasElement, maze: Maze, config: RenderConfig, callbacks: EditorCallbacks) {
+    this.canvas = canvas;
+    this.maze = maze;
+    this.config = config;
+    this.callbacks = callbacks;
+
+    this.setupPanel();
+    this.setupPointer();
+    window.addEventListener('resize', () => {
+      if (this.editing) this.resize();
+    });
+    this.resize();
+  }
+
+  isEditing(): boolean {
+    return this.editing;
+  }
+
+  private setupPanel() {
+    const panel = document.getElementById('editor');
+    if (!panel) return;
+    panel.hidden = false;
+
+    panel.querySelectorAll<HTMLButtonElement>('[data-tool]').forEach((button) => {
+      button.addEventListener('click', () => {
+        this.tool = button.dataset.tool as EditorTool;
+        panel.querySelectorAll('[data-tool]').forEach((other) => other.classList.toggle('active', other === button));
+      });
+    });
+
+    document.getElementById('editor-play')?.addEventListener('click', () => this.togglePlay());
+    document.getElementById('editor-clear')?.addEventListener('click', () => {
+      this.maze = createBlankMaze(this.maze.width, this.maze.height);
+      this.resize();
+    });
+    document.getElementById('editor-export')?.addEventListener('click', () => this.exportFile());
+    document.getElementById('editor-link')?.addEventListener('click', () => this.copyLink());
+
+    const file = document.getElementById('editor-file') as HTMLInputElement | null;
+    document.getElementById('editor-import')?.addEventListener('click', () => file?.click());
+    file?.addEventListener('change', async () => {
+      const selected = file.files?.[0];
+      file.value = '';
+      if (selected) this.importFile(await selected.text());
+    });
+  }
+
+  private setupPointer() {
+    this.canvas.addEventListener('pointerdown', (e) => {
+      if (!this.editing) return;
+      e.preventDefault();
+      this.onPress(this.toCells(e));
+      this.redraw();
+    });
+
+    this.canvas.addEventListener('pointermove', (e) => {
+      if (!this.editing || !this.drag) return;
+      const point = this.toCells(e);
+      const { from } = this.drag;
+      if (!this.drag.moved && Math.hypot(point.x - from.x, point.y - from.y) < DRAG_THRESHOLD) return;
+
+      if (moveHole(this.maze, this.drag.index, point) >= 0) {
+        this.drag.moved = true;
+        this.redraw();
+      }
+    });
+
+    window.addEventListener('pointerup', () => {
+      if (!this.editing || !this.drag) return;
+      // A click on a hole without dragging it deletes it
+      if (!this.drag.moved) removeHole(this.maze, this.drag.index);
+      this.drag = null;
+      this.redraw();
+    });
+  }
+
+  private onPress(point: Point) {
+    const cell = { x: Math.floor(point.x), y: Math.floor(point.y) };
+
+    switch (this.tool) {
+      case 'wall': {
+        const wall = pickWall(this.maze, point);
+        if (wall) toggleWall(this.maze, wall);
+        break;
+      }
+      case 'hole': {
+        const index = findHole(this.maze, point, this.config.HOLE_RADIUS_RATIO);
+        if (index >= 0) {
+          this.drag = { index, from: point, moved: false };
+        } else {
+          placeHole(this.maze, point);
+        }
+        break;
+      }
+      case 'start':
+        setStart(this.maze, cell);
+        break;
+      case 'goal':
+        setGoal(this.maze, cell);
+        break;
+    }
+  }
+
+  private togglePlay() {
+    const button = document.getElementById('editor-play');
+
+    if (this.editing) {
+      if (checkLevel(this.maze, this.config).problems.length > 0) return;
+      this.editing = false;
+      if (button) button.textContent = 'Back to editor';
+      this.callbacks.play(cloneMaze(this.maze));
+    } else {
+      this.callbacks.stop();
+      this.editing = true;
+      if (button) button.textContent = 'Test play';
+      this.resize();
+    }
+  }
+
+  private exportFile() {
+    const blob = new Blob([stringifyMaze(this.maze)], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = 'level.json';
+    link.click();
+    URL.revokeObjectURL(link.href);
+  }
+
+  private async copyLink() {
+    const link = `${window.location.origin}${window.location.pathname}?maze=${encodeMaze(this.maze)}`;
+    if ((await copyResult(link, null)) !== 'copied') {
+      // Clipboard blocked or missing; show the link so it can be copied by hand
+      window.prompt("Couldn't copy automatically. Copy this level link:", link);
+      return;
+    }
+    const button = document.getElementById('editor-link');
+    if (button) button.textContent = 'Link copied!';
+  }
+
+  private importFile(text: string) {
+    try {
+      this.maze = parseMaze(text).maze;
+      this.resize();
+    } catch (error) {
+      this.showStatus([`Couldn't import level: ${(error as Error).message}`], false);
+    }
+  }
+
+  // Pointer position in cell units
+  private toCells(e: PointerEvent): Point {
+    const rect = this.canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * this.maze.width,
+      y: ((e.clientY - rect.top) / rect.height) * this.maze.height,
+    };
+  }
+
+  private resize() {
+    this.cellSize = setupCanvas(this.canvas, this.maze.width, this.maze.height);
+    this.redraw();
+  }
+
+  private redraw() {
+    const ctx = this.canvas.getContext('2d')!;
+    renderEditor(ctx, this.maze, this.config, this.cellSize);
+
+    const { path, problems } = checkLevel(this.maze, this.config);
+    this.showStatus(problems.length > 0 ? problems : [`Solution is ${path.length} cells long`], problems.length === 0);
+  }
+
+  private showStatus(lines: string[], playable: boolean) {
+    const status = document.getElementById('editor-status');
+    if (status) status.textContent = lines.join(' · ');
+
+    const play = document.getElementById('editor-play') as HTMLButtonElement | null;
+    if (play) play.disabled = !playable;
+  }
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkLevel,
+  cloneMaze,
+  createBlankMaze,
+  findHole,
+  moveHole,
+  pickWall,
+  placeHole,
+  removeHole,
+  setGoal,
+  setStart,
+  toggleWall,
+} from './editor';
+import { Config } from './physics';
+
+const config: Config = {
+  GRID_WIDTH: 4,
+  GRID_HEIGHT: 4,
+  GRAVITY: 1200,
+  FRICTION: 0.98,
+  BALL_RADIUS_RATIO: 0.3,
+  HOLE_RADIUS_RATIO: 0.2,
+  GOAL_RADIUS_RATIO: 0.3,
+};
+
+describe('Editor - Walls', () => {
+  it('should start with only the outer walls', () => {
+    const maze = createBlankMaze(3, 2);
+
+    expect(maze.cells[0][0].walls).toEqual({ north: true, east: false, south: false, west: true });
+    expect(maze.cells[1][2].walls).toEqual({ north: false, east: true, south: true, west: false });
+    expect(maze.start).toEqual({ x: 0, y: 0 });
+    expect(maze.goal).toEqual({ x: 2, y: 1 });
+  });
+
+  it('should pick the wall nearest the pointer', () => {
+    const maze = createBlankMaze(3, 3);
+
+    expect(pickWall(maze, { x: 1.95, y: 1.5 })).toEqual({ x: 1, y: 1, side: 'east' });
+    expect(pickWall(maze, { x: 1.5, y: 1.1 })).toEqual({ x: 1, y: 1, side: 'north' });
+    expect(pickWall(maze, { x: 1.5, y: 1.5 })).toBeNull();
+  });
+
+  it('should not pick the outer boundary', () => {
+    expect(pickWall(createBlankMaze(3, 3), { x: 0.05, y: 1.5 })).toBeNull();
+  });
+
+  it('should toggle both sides of a wall together', () => {
+    const maze = createBlankMaze(3, 3);
+
+    toggleWall(maze, { x: 1, y: 1, side: 'east' });
+    expect(maze.cells[1][1].walls.east).toBe(true);
+    expect(maze.cells[1][2].walls.west).toBe(true);
+
+    toggleWall(maze, { x: 2, y: 1, side: 'west' });
+    expect(maze.cells[1][1].walls.east).toBe(false);
+    expect(maze.cells[1][2].walls.west).toBe(false);
+  });
+});
+
+describe('Editor - Holes', () => {
+  it('should place a hole where clicked, kept near its cell centre', () => {
+    const maze = createBlankMaze(3, 3);
+
+    placeHole(maze, { x: 1.6, y: 1.5 });
+    placeHole(maze, { x: 2.99, y: 0.01 });
+
+    expect(maze.holes[0]).toMatchObject({ x: 1, y: 1, offsetY: 0 });
+    expect(maze.holes[0].offsetX).toBeCloseTo(0.1);
+    expect(maze.holes[1]).toEqual({ x: 2, y: 0, offsetX: 0.3, offsetY: -0.3 });
+  });
+
+  it('should move the hole already in a cell instead of adding another', () => {
+    const maze = createBlankMaze(3, 3);
+
+    placeHole(maze, { x: 1.5, y: 1.5 });
+    expect(placeHole(maze, { x: 1.3, y: 1.5 })).toBe(0);
+    expect(maze.holes).toHaveLength(1);
+  });
+
+  it('should find, drag and remove a hole', () => {
+    const maze = createBlankMaze(3, 3);
+    placeHole(maze, { x: 1.5, y: 1.5 });
+    placeHole(maze, { x: 0.5, y: 2.5 });
+
+    const index = findHole(maze, { x: 1.55, y: 1.45 }, 0.2);
+    expect(index).toBe(0);
+
+    expect(moveHole(maze, index, { x: 0.5, y: 2.6 })).toBe(-1); // Cell already has a hole
+    expect(moveHole(maze, index, { x: 2.5, y: 1.5 })).toBe(0);
+    expect(maze.holes[0]).toMatchObject({ x: 2, y: 1 });
+
+    removeHole(maze, 0);
+    expect(maze.holes).toEqual([{ x: 0, y: 2, offsetX: 0, offsetY: 0 }]);
+  });
+});
+
+describe('Editor - Checks', () => {
+  it('should accept a level whose goal can be reached', () => {
+    const { path, problems } = checkLevel(createBlankMaze(4, 4), config);
+
+    expect(problems).toEqual([]);
+    expect(path).toHaveLength(7);
+  });
+
+  it('should measure the path from the chosen start', () => {
+    const maze = createBlankMaze(4, 4);
+    setStart(maze, { x: 3, y: 0 });
+
+    expect(checkLevel(maze, config).path).toHaveLength(4);
+  });
+
+  it('should report a goal walled off from the start', () => {
+    const maze = createBlankMaze(4, 4);
+    for (let y = 0; y < 4; y++) toggleWall(maze, { x: 1, y, side: 'east' });
+
+    expect(checkLevel(maze, config).problems).toEqual(["The goal can't be reached from the start"]);
+  });
+
+  it('should report holes on the start or goal and a start on the goal', () => {
+    const maze = createBlankMaze(4, 4);
+    setGoal(maze, { x: 0, y: 0 });
+    placeHole(maze, { x: 0.5, y: 0.5 });
+
+    expect(checkLevel(maze, config).problems).toHaveLength(3);
+  });
+});
+
+describe('Editor - Test runs', () => {
+  it('should copy a level so later edits do not leak into a test run', () => {
+    const maze = createBlankMaze(3, 3);
+    const copy = cloneMaze(maze);
+
+    toggleWall(maze, { x: 0, y: 0, side: 'east' });
+    expect(copy.cells[0][0].walls.east).toBe(false);
+  });
+});
@@ -0,0 +1,173 @@
+import { Checkpoint, Direction, Hole, Maze } from './maze';
+import { DIRECTIONS, Point, analyzeMaze } from './analysis';
+import { Config } from './physics';
+import { OPPOSITE } from './tiles';
+import { findLayoutProblems } from './maze-file';
+
+/** How close to a cell edge (cell units) a click has to be to pick the wall */
+export const WALL_PICK_MARGIN = 0.2;
+
+/** Furthest a hole can sit from its cell centre, as in generated mazes */
+export const MAX_HOLE_OFFSET = 0.3;
+
+export type EditorTool = 'wall' | 'hole' | 'start' | 'goal';
+
+/**
+ * One side of one cell
+ */
+export interface WallRef {
+  x: number;
+  y: number;
+  side: Direction;
+}
+
+/**
+ * Outcome of checking a hand-made level before it is played
+ */
+export interface LevelCheck {
+  path: Point[]; // Cells from start to goal, empty if unreachable
+  problems: string[]; // Reasons the level can't be played as it stands
+}
+
+/**
+ * Empty board with only the outer walls, starting top-left with the goal
+ * in the opposite corner
+ */
+export function createBlankMaze(width: number, height: number): Maze {
+  const cells = Array.from({ length: height }, (_, y) =>
+    Array.from({ length: width }, (_, x) => ({
+      x,
+      y,
+      walls: { north: y === 0, east: x === width - 1, south: y === height - 1, west: x === 0 },
+    }))
+  );
+
+  return { width, height, cells, holes: [], goal: { x: width - 1, y: height - 1 }, start: { x: 0, y: 0 } };
+}
+
+/**
+ * Deep copy, so a test run never sees later edits (collision caches are
+ * keyed on the maze object)
+ */
+export function cloneMaze(maze: Maze): Maze {
+  return structuredClone(maze);
+}
+
+/**
+ * The inner wall nearest a point (in cell units), if the point is close
+ * enough to an edge. The outer boundary can't be removed so is never picked.
+ */
+export function pickWall(maze: Maze, point: Point): WallRef | null {
+  const cell = cellAt(maze, point);
+  if (!cell) return null;
+
+  const fx = point.x - cell.x;
+  const fy = point.y - cell.y;
+  const distances: [Direction, number][] = [
+    ['north', fy],
+    ['east', 1 - fx],
+    ['south', 1 - fy],
+    ['west', fx],
+  ];
+  const [side, distance] = distances.reduce((best, next) => (next[1] < best[1] ? next : best));
+
+  const { dx, dy } = DIRECTIONS[side];
+  if (distance > WALL_PICK_MARGIN || !maze.cells[cell.y + dy]?.[cell.x + dx]) return null;
+  return { x: cell.x, y: cell.y, side };
+}
+
+/**
+ * Add or remove a wall, keeping both cells that share it in step
+ */
+export function toggleWall(maze: Maze, wall: WallRef) {
+  const { dx, dy } = DIRECTIONS[wall.side];
+  const cell = maze.cells[wall.y][wall.x];
+  const neighbor = maze.cells[wall.y + dy]?.[wall.x + dx];
+  if (!neighbor) return;
+
+  const closed = !cell.walls[wall.side];
+  cell.walls[wall.side] = closed;
+  neighbor.walls[OPPOSITE[wall.side]] = closed;
+}
+
+/**
+ * Index of the hole under a point (cell units), or -1
+ */
+export function findHole(maze: Maze, point: Point, radius: number): number {
+  return maze.holes.findIndex((hole) => {
+    const centerX = hole.x + 0.5 + (hole.offsetX ?? 0);
+    const centerY = hole.y + 0.5 + (hole.offsetY ?? 0);
+    return Math.hypot(point.x - centerX, point.y - centerY) <= radius;
+  });
+}
+
+/**
+ * Put a hole at a point, nudged to stay within MAX_HOLE_OFFSET of its cell
+ * centre. A cell holds one hole, so a hole already there is moved instead.
+ * Returns the hole's index, or -1 if the point isn't on the board.
+ */
+export function placeHole(maze: Maze, point: Point): number {
+  const cell = cellAt(maze, point);
+  if (!cell) return -1;
+
+  const index = maze.holes.findIndex((hole) => hole.x === cell.x && hole.y === cell.y);
+  if (index >= 0) return moveHole(maze, index, point);
+
+  maze.holes.push(holeAt(cell, point));
+  return maze.holes.length - 1;
+}
+
+/**
+ * Drag a hole to a new point. Returns its index, or -1 if the move was
+ * refused (off the board, or onto another hole's cell).
+ */
+export function moveHole(maze: Maze, index: number, point: Point): number {
+  const cell = cellAt(maze, point);
+  if (!cell) return -1;
+
+  const taken = maze.holes.some((hole, i) => i !== index && hole.x === cell.x && hole.y === cell.y);
+  if (taken) return -1;
+
+  maze.holes[index] = holeAt(cell, point);
+  return index;
+}
+
+/**
+ * Take a hole off the board
+ */
+export function removeHole(maze: Maze, index: number) {
+  maze.holes.splice(index, 1);
+}
+
+/**
+ * Move the start to a cell
+ */
+export function setStart(maze: Maze, cell: Checkpoint) {
+  maze.start = { x: cell.x, y: cell.y };
+}
+
+/**
+ * Move the goal to a cell (always centred, like generated goals)
+ */
+export function setGoal(maze: Maze, cell: Checkpoint) {
+  maze.goal = { x: cell.x, y: cell.y };
+}
+
+/**
+ * Make sure a hand-made level can be finished, by the same rules a maze
+ * file is held to
+ */
+export function checkLevel(maze: Maze, config: Config): LevelCheck {
+  return { path: analyzeMaze(maze, config).path, problems: findLayoutProblems(maze) };
+}
+
+function cellAt(maze: Maze, point: Point) {
+  const x = Math.floor(point.x);
+  const y = Math.floor(point.y);
+  return maze.cells[y]?.[x];
+}
+
+function holeAt(cell: Checkpoint, point: Point): Hole {
+  const clamp = (offset: number) => Math.max(-MAX_HOLE_OFFSET, Math.min(MAX_HOLE_OFFSET, offset));
+  return { x: cell.x, y: cell.y, offsetX: clamp(point.x - cell.x - 0.5), offsetY: clamp(point.y - cell.y - 0.5) };
+}
@@ -0,0 +1,54 @@
+import { InputState } from './physics';
+import type { InputSource } from './input';
+import { shapeTilt } from './input-filter';
+
+/** Sticks rarely rest exactly at zero */
+const STICK_DEAD_ZONE = 0.15;
+
+// Standard gamepad mapping
+const DPAD_UP = 12;
+const DPAD_DOWN = 13;
+const DPAD_LEFT = 14;
+const DPAD_RIGHT = 15;
+
+/**
+ * Tilt from a gamepad's analog sticks (whichever is pushed further), with
+ * the d-pad as a digital fallback
+ */
+export function readGamepad(pad: Gamepad): InputState | null {
+  const sticks: InputState[] = [];
+  for (let axis = 0; axis + 1 < pad.axes.length && axis < 4; axis += 2) {
+    sticks.push(
+      shapeTilt({ tiltX: pad.axes[axis], tiltY: pad.axes[axis + 1] }, STICK_DEAD_ZONE, 1)
+    );
+  }
+
+  const magnitude = (s: InputState) => Math.hypot(s.tiltX, s.tiltY);
+  const stick = sticks.sort((a, b) => magnitude(b) - magnitude(a))[0];
+  if (stick && magnitude(stick) > 0) return stick;
+
+  const pressed = (index: number) => pad.buttons[index]?.pressed ? 1 : 0;
+  const tiltX = pressed(DPAD_RIGHT) - pressed(DPAD_LEFT);
+  const tiltY = pressed(DPAD_DOWN) - pressed(DPAD_UP);
+  if (tiltX === 0 && tiltY === 0) return null;
+
+  return { tiltX, tiltY };
+}
+
+/**
+ * Gamepad API input, polled each time the game reads input
+ */
+export class GamepadInput implements InputSource {
+  static isSupported(): boolean {
+    return typeof navigator !== 'undefined' && 'getGamepads' in navigator;
+  }
+
+  read(): InputState | null {
+    for (const pad of navigator.getGamepads()) {
+      if (!pad || !pad.connected) continue;
+      const input = readGamepad(pad);
+      if (input) return input;
+    }
+    return null;
+  }
+}
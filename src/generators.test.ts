@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { Maze, generateMaze } from './maze';
+import { GENERATORS, GeneratorAlgorithm } from './generators';
+import { getOpenNeighbors } from './analysis';
+
+const ALGORITHMS = Object.keys(GENERATORS) as GeneratorAlgorithm[];
+
+// Count passages (each open wall shared by two cells counts once)
+const countPassages = (maze: Maze) => {
+  let passages = 0;
+  for (const row of maze.cells) {
+    for (const cell of row) {
+      if (!cell.walls.east) passages++;
+      if (!cell.walls.south) passages++;
+    }
+  }
+  return passages;
+};
+
+const countReachable = (maze: Maze) => {
+  const seen = new Set<string>(['0,0']);
+  const queue = [maze.cells[0][0]];
+  while (queue.length > 0) {
+    for (const next of getOpenNeighbors(maze, queue.shift()!)) {
+      if (seen.has(`${next.x},${next.y}`)) continue;
+      seen.add(`${next.x},${next.y}`);
+      queue.push(next);
+    }
+  }
+  return seen.size;
+};
+
+const countDeadEnds = (maze: Maze) =>
+  maze.cells.flat().filter((cell) => getOpenNeighbors(maze, cell).length === 1).length;
+
+describe('Generators', () => {
+  describe.each(ALGORITHMS)('%s', (algorithm) => {
+    const maze = generateMaze(20000, 10, 10, 0, { algorithm });
+
+    it('should produce a perfect maze (every cell reachable, no loops)', () => {
+      expect(countReachable(maze)).toBe(100);
+      expect(countPassages(maze)).toBe(99);
+    });
+
+    it('should keep walls consistent between neighbours', () => {
+      for (const row of maze.cells) {
+        for (const cell of row) {
+          const east = maze.cells[cell.y][cell.x + 1];
+          const south = maze.cells[cell.y + 1]?.[cell.x];
+          if (east) expect(cell.walls.east).toBe(east.walls.west);
+          if (south) expect(cell.walls.south).toBe(south.walls.north);
+        }
+      }
+    });
+
+    it('should keep the outer boundary closed', () => {
+      for (let i = 0; i < 10; i++) {
+        expect(maze.cells[0][i].walls.north).toBe(true);
+        expect(maze.cells[9][i].walls.south).toBe(true);
+        expect(maze.cells[i][0].walls.west).toBe(true);
+        expect(maze.cells[i][9].walls.east).toBe(true);
+      }
+    });
+
+    it('should be deterministic for a seed', () => {
+      expect(generateMaze(20000, 10, 10, 0, { algorithm })).toEqual(maze);
+    });
+  });
+
+  it('should default to the recursive backtracker', () => {
+    expect(generateMaze(20000, 8, 8, 16)).toEqual(
+      generateMaze(20000, 8, 8, 16, { algorithm: 'backtracker' })
+    );
+  });
+
+  it('should give algorithms a different character', () => {
+    const backtracker = countDeadEnds(generateMaze(20000, 12, 12, 0, { algorithm: 'backtracker' }));
+    const prim = countDeadEnds(generateMaze(20000, 12, 12, 0, { algorithm: 'prim' }));
+
+    expect(prim).toBeGreaterThan(backtracker);
+  });
+});
+
+describe('Generators - Braiding', () => {
+  it('should add loops by removing dead ends', () => {
+    const perfect = generateMaze(20000, 10, 10, 0, { algorithm: 'prim' });
+    const braided = generateMaze(20000, 10, 10, 0, { algorithm: 'prim', braid: 1 });
+
+    expect(countPassages(braided)).toBeGreaterThan(countPassages(perfect));
+    expect(countDeadEnds(braided)).toBe(0);
+    expect(countReachable(braided)).toBe(100);
+  });
+
+  it('should leave some dead ends with a partial ratio', () => {
+    const full = countDeadEnds(generateMaze(20000, 10, 10, 0, { algorithm: 'prim' }));
+    const partial = countDeadEnds(generateMaze(20000, 10, 10, 0, { algorithm: 'prim', braid: 0.5 }));
+
+    expect(partial).toBeGreaterThan(0);
+    expect(partial).toBeLessThan(full);
+  });
+});
@@ -0,0 +1,312 @@
+import type { Cell } from './maze';
+import { RNG } from './utils';
+
+export type GeneratorAlgorithm =
+  | 'backtracker'
+  | 'prim'
+  | 'kruskal'
+  | 'wilson'
+  | 'eller'
+  | 'binaryTree';
+
+/**
+ * Carves passages into a grid that starts with every wall up
+ */
+export type MazeGenerator = (cells: Cell[][], rng: RNG) => void;
+
+/**
+ * Create a grid with all walls
+ */
+export function createGrid(width: number, height: number): Cell[][] {
+  const cells: Cell[][] = [];
+  for (let y = 0; y < height; y++) {
+    cells[y] = [];
+    for (let x = 0; x < width; x++) {
+      cells[y][x] = {
+        x,
+        y,
+        walls: { north: true, east: true, south: true, west: true },
+      };
+    }
+  }
+  return cells;
+}
+
+/**
+ * All grid neighbours of a cell, in north, east, south, west order
+ */
+export function getNeighbors(cells: Cell[][], cell: Cell): Cell[] {
+  const neighbors: Cell[] = [];
+  const { x, y } = cell;
+  const height = cells.length;
+  const width = cells[0].length;
+
+  if (y > 0) neighbors.push(cells[y - 1][x]); // North
+  if (x < width - 1) neighbors.push(cells[y][x + 1]); // East
+  if (y < height - 1) neighbors.push(cells[y + 1][x]); // South
+  if (x > 0) neighbors.push(cells[y][x - 1]); // West
+
+  return neighbors;
+}
+
+/**
+ * Open the wall between two adjacent cells (on both sides)
+ */
+export function removeWall(current: Cell, next: Cell) {
+  const dx = next.x - current.x;
+  const dy = next.y - current.y;
+
+  if (dx === 1) {
+    current.walls.east = false;
+    next.walls.west = false;
+  } else if (dx === -1) {
+    current.walls.west = false;
+    next.walls.east = false;
+  } else if (dy === 1) {
+    current.walls.south = false;
+    next.walls.north = false;
+  } else if (dy === -1) {
+    current.walls.north = false;
+    next.walls.south = false;
+  }
+}
+
+const key = (cell: Cell) => `${cell.x},${cell.y}`;
+
+/**
+ * Recursive backtracker: long winding corridors, few branches
+ */
+const backtracker: MazeGenerator = (cells, rng) => {
+  const stack: Cell[] = [];
+  const visited = new Set<string>();
+
+  // Start at top-left
+  const start = cells[0][0];
+  stack.push(start);
+  visited.add(key(start));
+
+  while (stack.length > 0) {
+    const current = stack[stack.length - 1];
+    const neighbors = getNeighbors(cells, current).filter((n) => !visited.has(key(n)));
+
+    if (neighbors.length > 0) {
+      const next = neighbors[rng.nextInt(neighbors.length)];
+      removeWall(current, next);
+      visited.add(key(next));
+      stack.push(next);
+    } else {
+      stack.pop();
+    }
+  }
+};
+
+/**
+ * Randomized Prim's: grows outward from the start, lots of short dead ends
+ */
+const prim: MazeGenerator = (cells, rng) => {
+  const inMaze = new Set<string>();
+  const frontier: Cell[] = [];
+  const inFrontier = new Set<string>();
+
+  const add = (cell: Cell) => {
+    inMaze.add(key(cell));
+    for (const n of getNeighbors(cells, cell)) {
+      if (inMaze.has(key(n)) || inFrontier.has(key(n))) continue;
+      frontier.push(n);
+      inFrontier.add(key(n));
+    }
+  };
+
+  add(cells[0][0]);
+
+  while (frontier.length > 0) {
+    // Swap-remove a random frontier cell
+    const index = rng.nextInt(frontier.length);
+    const cell = frontier[index];
+    frontier[index] = frontier[frontier.length - 1];
+    frontier.pop();
+
+    const connections = getNeighbors(cells, cell).filter((n) => inMaze.has(key(n)));
+    removeWall(cell, connections[rng.nextInt(connections.length)]);
+    add(cell);
+  }
+};
+
+/**
+ * Randomized Kruskal's: joins random edges between disjoint regions
+ */
+const kruskal: MazeGenerator = (cells, rng) => {
+  const height = cells.length;
+  const width = cells[0].length;
+  const parent = Array.from({ length: width * height }, (_, i) => i);
+
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  const edges: [Cell, Cell][] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (x < width - 1) edges.push([cells[y][x], cells[y][x + 1]]);
+      if (y < height - 1) edges.push([cells[y][x], cells[y + 1][x]]);
+    }
+  }
+  shuffle(edges, rng);
+
+  for (const [a, b] of edges) {
+    const rootA = find(a.y * width + a.x);
+    const rootB = find(b.y * width + b.x);
+    if (rootA === rootB) continue;
+    parent[rootA] = rootB;
+    removeWall(a, b);
+  }
+};
+
+/**
+ * Wilson's: loop-erased random walks, an unbiased sample of all mazes
+ */
+const wilson: MazeGenerator = (cells, rng) => {
+  const inMaze = new Set<string>([key(cells[0][0])]);
+
+  for (const row of cells) {
+    for (const cell of row) {
+      if (inMaze.has(key(cell))) continue;
+
+      // Walk until we hit the maze, remembering the last exit from each cell
+      // (overwriting it erases any loops)
+      const exits = new Map<string, Cell>();
+      let current = cell;
+      while (!inMaze.has(key(current))) {
+        const neighbors = getNeighbors(cells, current);
+        const next = neighbors[rng.nextInt(neighbors.length)];
+        exits.set(key(current), next);
+        current = next;
+      }
+
+      // Carve the loop-free walk into the maze
+      current = cell;
+      while (!inMaze.has(key(current))) {
+        const next = exits.get(key(current))!;
+        removeWall(current, next);
+        inMaze.add(key(current));
+        current = next;
+      }
+    }
+  }
+};
+
+/**
+ * Eller's: builds one row at a time, tracking which cells are connected
+ */
+const eller: MazeGenerator = (cells, rng) => {
+  const height = cells.length;
+  const width = cells[0].length;
+  let sets: number[] = new Array(width).fill(0);
+  let nextSet = 1;
+
+  for (let y = 0; y < height; y++) {
+    const lastRow = y === height - 1;
+
+    // Cells not carried down from the row above get their own set
+    for (let x = 0; x < width; x++) {
+      if (sets[x] === 0) sets[x] = nextSet++;
+    }
+
+    // Randomly join neighbours in different sets (always on the last row)
+    for (let x = 0; x < width - 1; x++) {
+      if (sets[x] === sets[x + 1]) continue;
+      if (!lastRow && rng.next() < 0.5) continue;
+
+      removeWall(cells[y][x], cells[y][x + 1]);
+      const merged = sets[x + 1];
+      sets = sets.map((s) => (s === merged ? sets[x] : s));
+    }
+
+    if (lastRow) break;
+
+    // Each set carries down at least once
+    const below: number[] = new Array(width).fill(0);
+    const members = new Map<number, number[]>();
+    sets.forEach((s, x) => members.set(s, [...(members.get(s) || []), x]));
+
+    for (const [set, xs] of members) {
+      const forced = xs[rng.nextInt(xs.length)];
+      for (const x of xs) {
+        if (x !== forced && rng.next() < 0.5) continue;
+        removeWall(cells[y][x], cells[y + 1][x]);
+        below[x] = set;
+      }
+    }
+
+    sets = below;
+  }
+};
+
+/**
+ * Binary tree: every cell opens north or west, giving open top and left edges
+ */
+const binaryTree: MazeGenerator = (cells, rng) => {
+  for (const row of cells) {
+    for (const cell of row) {
+      const options: Cell[] = [];
+      if (cell.y > 0) options.push(cells[cell.y - 1][cell.x]);
+      if (cell.x > 0) options.push(cells[cell.y][cell.x - 1]);
+      if (options.length > 0) {
+        removeWall(cell, options[rng.nextInt(options.length)]);
+      }
+    }
+  }
+};
+
+export const GENERATORS: Record<GeneratorAlgorithm, MazeGenerator> = {
+  backtracker,
+  prim,
+  kruskal,
+  wilson,
+  eller,
+  binaryTree,
+};
+
+/**
+ * Remove dead ends to add loops. `ratio` is the chance (0-1) that each
+ * dead end is opened up, preferring to join it to another dead end.
+ */
+export function braid(cells: Cell[][], rng: RNG, ratio: number) {
+  const openCount = (cell: Cell) =>
+    Object.values(cell.walls).filter((wall) => !wall).length;
+
+  for (const row of cells) {
+    for (const cell of row) {
+      // Earlier braiding may already have opened this cell
+      if (openCount(cell) !== 1 || rng.next() >= ratio) continue;
+
+      const closed = getNeighbors(cells, cell).filter((n) => isWallBetween(cell, n));
+      const deadEnds = closed.filter((n) => openCount(n) === 1);
+      const choices = deadEnds.length > 0 ? deadEnds : closed;
+
+      removeWall(cell, choices[rng.nextInt(choices.length)]);
+    }
+  }
+}
+
+function isWallBetween(a: Cell, b: Cell): boolean {
+  if (b.x > a.x) return a.walls.east;
+  if (b.x < a.x) return a.walls.west;
+  if (b.y > a.y) return a.walls.south;
+  return a.walls.north;
+}
+
+/**
+ * Fisher-Yates shuffle driven by the seeded RNG
+ */
+export function shuffle<T>(items: T[], rng: RNG): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = rng.nextInt(i + 1);
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
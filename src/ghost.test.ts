@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { LevelConfig, buildLevel } from './level';
+import { createSimulation, stepSimulation } from './simulation';
+import { createRecorder, quantizeInput } from './replay';
+import { GHOST_INTERVAL, Ghost, createGhostRecorder, ghostFromReplay, ghostPositions } from './ghost';
+
+const testConfig: LevelConfig = {
+  GRID_WIDTH: 8,
+  GRID_HEIGHT: 8,
+  GRAVITY: 1200,
+  FRICTION: 0.98,
+  BALL_RADIUS_RATIO: 0.3,
+  HOLE_RADIUS_RATIO: 0.2,
+  GOAL_RADIUS_RATIO: 0.3,
+  HOLE_COUNT: 16,
+};
+
+// Simulate a run, keeping its ghost, replay and the true position at every tick
+const recordRun = (seed: number, ticks: number, config = testConfig) => {
+  const sim = createSimulation(buildLevel(seed, config), config);
+  const recorder = createRecorder(seed, config);
+  const ghostRecorder = createGhostRecorder(config.TRANSPOSE);
+  const positions = [{ ...sim.balls[0].ball }];
+
+  while (sim.tick < ticks) {
+    const input = quantizeInput({ tiltX: Math.sin(sim.tick / 37), tiltY: Math.cos(sim.tick / 53) });
+    recorder.record(sim.tick, input);
+    ghostRecorder.record(stepSimulation(sim, input), sim);
+    positions.push({ ...sim.balls[0].ball });
+  }
+
+  return { ghost: ghostRecorder.finish(sim), replay: recorder.finish(sim.tick), positions };
+};
+
+describe('Ghost - Recording', () => {
+  it('should sample every interval plus the final tick', () => {
+    const { ghost } = recordRun(20000, GHOST_INTERVAL * 10 + 3);
+
+    expect(ghost.ticks).toBe(GHOST_INTERVAL * 10 + 3);
+    expect(ghost.paths).toHaveLength(1);
+    expect(ghost.paths[0]).toHaveLength((11 + 1) * 2);
+  });
+
+  it('should store positions rounded to whole units', () => {
+    const { ghost, positions } = recordRun(20000, GHOST_INTERVAL * 4);
+
+    expect(ghost.paths[0].every(Number.isInteger)).toBe(true);
+    expect(ghost.paths[0].slice(4, 6)).toEqual([
+      Math.round(positions[GHOST_INTERVAL * 2].x),
+      Math.round(positions[GHOST_INTERVAL * 2].y),
+    ]);
+  });
+
+  it('should match the recording when rebuilt from the replay', () => {
+    const { ghost, replay } = recordRun(20001, 600);
+    expect(ghostFromReplay(replay)).toEqual(ghost);
+  });
+
+  it('should store transposed runs in the generated orientation', () => {
+    const wide = recordRun(20002, 300, { ...testConfig, TRANSPOSE: true });
+    const [point] = ghostPositions(wide.ghost, 160, true);
+
+    expect(point.x).toBeCloseTo(wide.positions[160].x, -1);
+    expect(point.y).toBeCloseTo(wide.positions[160].y, -1);
+    expect(ghostPositions(wide.ghost, 160)[0]).toEqual({ x: point.y, y: point.x });
+  });
+});
+
+describe('Ghost - Playback', () => {
+  const ghost: Ghost = { ticks: GHOST_INTERVAL * 2 + 2, paths: [[50, 50, 90, 50, 90, 70, 90, 80]] };
+
+  it('should blend between samples', () => {
+    expect(ghostPositions(ghost, GHOST_INTERVAL / 2)).toEqual([{ x: 70, y: 50 }]);
+  });
+
+  it('should reach the final sample on the finishing tick', () => {
+    expect(ghostPositions(ghost, GHOST_INTERVAL * 2 + 1)).toEqual([{ x: 90, y: 75 }]);
+    expect(ghostPositions(ghost, ghost.ticks)).toEqual([{ x: 90, y: 80 }]);
+  });
+
+  it('should hold still before the start and after the finish', () => {
+    expect(ghostPositions(ghost, -5)).toEqual([{ x: 50, y: 50 }]);
+    expect(ghostPositions(ghost, 10000)).toEqual([{ x: 90, y: 80 }]);
+  });
+
+  it('should jump rather than glide back to the start after a hole', () => {
+    const respawn: Ghost = { ticks: GHOST_INTERVAL, paths: [[650, 650, 50, 50]] };
+
+    expect(ghostPositions(respawn, GHOST_INTERVAL / 2)).toEqual([{ x: 650, y: 650 }]);
+    expect(ghostPositions(respawn, GHOST_INTERVAL)).toEqual([{ x: 50, y: 50 }]);
+  });
+});
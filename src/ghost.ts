@@ -0,0 +1,82 @@
+import { Point } from './analysis';
+import { Replay, playReplay } from './replay';
+import { SIM_CELL_SIZE, Simulation, TickResult } from './simulation';
+
+/** Ticks between ghost samples (15 a second); positions in between are blended */
+export const GHOST_INTERVAL = 8;
+
+/**
+ * Where each ball went during a finished run, to race against on a later
+ * attempt at the same seed. Positions are in whole simulation units on the
+ * board as generated (before any TRANSPOSE), so a ghost recorded on a phone
+ * still lines up on a wide screen.
+ */
+export interface Ghost {
+  ticks: number; // Length of the run
+  paths: number[][]; // Per ball: [x, y, x, y, ...], one pair every GHOST_INTERVAL ticks plus the final tick
+}
+
+/**
+ * Samples ball positions as a run is simulated. Call `record` after every
+ * tick and `finish` once the run is won.
+ */
+export function createGhostRecorder(transposed = false) {
+  const paths: number[][] = [];
+
+  const sample = (sim: Simulation, tick: 'previous' | 'ball') => {
+    sim.balls.forEach((simBall, i) => {
+      const { x, y } = simBall[tick];
+      const path = (paths[i] ??= []);
+      path.push(...(transposed ? [y, x] : [x, y]).map(Math.round));
+    });
+  };
+
+  return {
+    record(result: TickResult, sim: Simulation) {
+      // `previous` is where each ball was when this tick began
+      if (result.tick % GHOST_INTERVAL === 0) sample(sim, 'previous');
+    },
+
+    finish(sim: Simulation): Ghost {
+      sample(sim, 'ball');
+      return { ticks: sim.tick, paths: paths.map((path) => path.slice()) };
+    },
+  };
+}
+
+/**
+ * Record the ghost of a replayed run, e.g. a designer's par run
+ */
+export function ghostFromReplay(replay: Replay): Ghost {
+  const recorder = createGhostRecorder(replay.config.TRANSPOSE);
+  const sim = playReplay(replay, recorder.record);
+  return recorder.finish(sim);
+}
+
+/**
+ * Each ghost ball's position (simulation units) at a tick, which may be
+ * fractional. Holds at the end once the ghost has finished.
+ */
+export function ghostPositions(ghost: Ghost, tick: number, transposed = false): Point[] {
+  const clamped = Math.max(0, Math.min(tick, ghost.ticks));
+
+  return ghost.paths.map((path) => {
+    const last = path.length / 2 - 1;
+    const index = Math.min(Math.floor(clamped / GHOST_INTERVAL), last);
+    const next = Math.min(index + 1, last);
+    const from = { x: path[index * 2], y: path[index * 2 + 1] };
+    const to = { x: path[next * 2], y: path[next * 2 + 1] };
+
+    // The final sample is the finishing tick, which needn't be a whole interval on
+    const span = (next === last ? ghost.ticks : next * GHOST_INTERVAL) - index * GHOST_INTERVAL;
+    const t = span > 0 ? Math.min(1, (clamped - index * GHOST_INTERVAL) / span) : 0;
+
+    // Snap rather than glide across the board when it respawned after a hole
+    const jumped = Math.hypot(to.x - from.x, to.y - from.y) > SIM_CELL_SIZE;
+    const point = jumped
+      ? (t < 1 ? from : to)
+      : { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+
+    return transposed ? { x: point.y, y: point.x } : point;
+  });
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { InputFilterSettings, createInputFilter, shapeTilt } from './input-filter';
+
+const passThrough: InputFilterSettings = { deadZone: 0, exponent: 1, smoothing: 0, maxRate: Infinity };
+const dt = 1 / 120;
+
+describe('Input filter - Dead zone and curve', () => {
+  it('should ignore small wobbles inside the dead zone', () => {
+    expect(shapeTilt({ tiltX: 0.05, tiltY: 0.05 }, 0.1, 1)).toEqual({ tiltX: 0, tiltY: 0 });
+  });
+
+  it('should use a radial dead zone rather than per axis', () => {
+    // Each axis is inside 0.1 but the combined tilt is not
+    const tilt = shapeTilt({ tiltX: 0.09, tiltY: 0.09 }, 0.1, 1);
+    expect(tilt.tiltX).toBeGreaterThan(0);
+  });
+
+  it('should ramp up from zero at the dead zone edge', () => {
+    const tilt = shapeTilt({ tiltX: 0.55, tiltY: 0 }, 0.1, 1);
+    expect(tilt.tiltX).toBeCloseTo(0.5);
+  });
+
+  it('should soften small tilts with an exponent above 1', () => {
+    const tilt = shapeTilt({ tiltX: 0.5, tiltY: 0 }, 0, 2);
+    expect(tilt.tiltX).toBeCloseTo(0.25);
+  });
+
+  it('should keep the tilt direction', () => {
+    const tilt = shapeTilt({ tiltX: 0.3, tiltY: -0.4 }, 0.1, 2);
+    expect(tilt.tiltX / tilt.tiltY).toBeCloseTo(-0.75);
+  });
+
+  it('should still reach full tilt', () => {
+    expect(shapeTilt({ tiltX: 1, tiltY: 0 }, 0.2, 3).tiltX).toBeCloseTo(1);
+  });
+});
+
+describe('Input filter - Processing', () => {
+  it('should pass input straight through when everything is off', () => {
+    const filter = createInputFilter(passThrough);
+    expect(filter.process({ tiltX: 0.3, tiltY: -0.7 }, dt)).toEqual({ tiltX: 0.3, tiltY: -0.7 });
+  });
+
+  it('should smooth towards the target over the time constant', () => {
+    const filter = createInputFilter({ ...passThrough, smoothing: 0.1 });
+
+    let output = filter.process({ tiltX: 1, tiltY: 0 }, dt);
+    expect(output.tiltX).toBeGreaterThan(0);
+    expect(output.tiltX).toBeLessThan(0.2);
+
+    // After one time constant we're ~63% of the way there, regardless of step size
+    for (let i = 1; i < 12; i++) output = filter.process({ tiltX: 1, tiltY: 0 }, dt);
+    expect(output.tiltX).toBeCloseTo(1 - Math.exp(-1), 2);
+  });
+
+  it('should be independent of how the time is sliced', () => {
+    const fine = createInputFilter({ ...passThrough, smoothing: 0.1 });
+    const coarse = createInputFilter({ ...passThrough, smoothing: 0.1 });
+
+    let a = { tiltX: 0, tiltY: 0 };
+    for (let i = 0; i < 4; i++) a = fine.process({ tiltX: 1, tiltY: 0 }, 0.01);
+    const b = coarse.process({ tiltX: 1, tiltY: 0 }, 0.04);
+
+    expect(a.tiltX).toBeCloseTo(b.tiltX);
+  });
+
+  it('should cap how fast tilt can change', () => {
+    const filter = createInputFilter({ ...passThrough, maxRate: 4 });
+
+    const output = filter.process({ tiltX: 1, tiltY: 0 }, 0.1);
+    expect(output.tiltX).toBeCloseTo(0.4);
+  });
+
+  it('should cap diagonal changes by their total length', () => {
+    const filter = createInputFilter({ ...passThrough, maxRate: 1 });
+
+    const output = filter.process({ tiltX: 1, tiltY: 1 }, 0.1);
+    expect(Math.hypot(output.tiltX, output.tiltY)).toBeCloseTo(0.1);
+  });
+
+  it('should return to level after a reset', () => {
+    const filter = createInputFilter({ ...passThrough, smoothing: 0.1 });
+    filter.process({ tiltX: 1, tiltY: 1 }, 1);
+    filter.reset();
+
+    expect(filter.process({ tiltX: 0, tiltY: 0 }, dt)).toEqual({ tiltX: 0, tiltY: 0 });
+  });
+});
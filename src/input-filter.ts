@@ -0,0 +1,66 @@
+import { InputState } from './physics';
+
+export interface InputFilterSettings {
+  deadZone: number; // Radial dead zone as a fraction of full tilt (0-1)
+  exponent: number; // Response curve: 1 = linear, >1 = finer control near level
+  smoothing: number; // Exponential smoothing time constant in seconds (0 = off)
+  maxRate: number; // Fastest the tilt may change, in full tilts per second
+}
+
+export const DEFAULT_INPUT_FILTER: InputFilterSettings = {
+  deadZone: 0.03,
+  exponent: 1.5,
+  smoothing: 0.05,
+  maxRate: 6,
+};
+
+/**
+ * Apply a radial dead zone and response curve, keeping direction intact
+ */
+export function shapeTilt(input: InputState, deadZone: number, exponent: number): InputState {
+  const magnitude = Math.hypot(input.tiltX, input.tiltY);
+  if (magnitude <= deadZone) return { tiltX: 0, tiltY: 0 };
+
+  // Rescale so output starts from zero at the dead zone edge
+  const scaled = Math.min(1, (magnitude - deadZone) / (1 - deadZone));
+  const shaped = Math.pow(scaled, exponent);
+
+  return {
+    tiltX: (input.tiltX / magnitude) * shaped,
+    tiltY: (input.tiltY / magnitude) * shaped,
+  };
+}
+
+/**
+ * Stateful processing between raw input sources and the physics:
+ * dead zone and curve, then smoothing, then a cap on how fast tilt changes
+ */
+export function createInputFilter(settings: InputFilterSettings = DEFAULT_INPUT_FILTER) {
+  let current: InputState = { tiltX: 0, tiltY: 0 };
+
+  return {
+    process(raw: InputState, dt: number): InputState {
+      const target = shapeTilt(raw, settings.deadZone, settings.exponent);
+
+      // Frame-rate independent exponential smoothing
+      const alpha = settings.smoothing > 0 ? 1 - Math.exp(-dt / settings.smoothing) : 1;
+      let dx = (target.tiltX - current.tiltX) * alpha;
+      let dy = (target.tiltY - current.tiltY) * alpha;
+
+      // Limit the change as a vector so diagonal moves aren't faster
+      const maxStep = settings.maxRate * dt;
+      const step = Math.hypot(dx, dy);
+      if (step > maxStep) {
+        dx *= maxStep / step;
+        dy *= maxStep / step;
+      }
+
+      current = { tiltX: current.tiltX + dx, tiltY: current.tiltY + dy };
+      return { ...current };
+    },
+
+    reset() {
+      current = { tiltX: 0, tiltY: 0 };
+    },
+  };
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { mergeInputs } from './input';
+import { rampAxis } from './keyboard';
+import { readGamepad } from './gamepad';
+
+const fakePad = (axes: number[], pressed: number[] = []) =>
+  ({
+    axes,
+    buttons: Array.from({ length: 16 }, (_, i) => ({ pressed: pressed.includes(i) })),
+  }) as unknown as Gamepad;
+
+describe('Input - Merging sources', () => {
+  it('should ignore idle sources', () => {
+    expect(mergeInputs([null, { tiltX: 0.5, tiltY: -0.2 }, null])).toEqual({
+      tiltX: 0.5,
+      tiltY: -0.2,
+    });
+  });
+
+  it('should add active sources and clamp the result', () => {
+    const merged = mergeInputs([
+      { tiltX: 0.8, tiltY: 0.1 },
+      { tiltX: 0.8, tiltY: 0.2 },
+    ]);
+
+    expect(merged.tiltX).toBe(1);
+    expect(merged.tiltY).toBeCloseTo(0.3);
+  });
+
+  it('should be level with no active sources', () => {
+    expect(mergeInputs([null, null])).toEqual({ tiltX: 0, tiltY: 0 });
+  });
+});
+
+describe('Input - Keyboard ramping', () => {
+  it('should ramp up to full tilt over a quarter second', () => {
+    let tilt = 0;
+    for (let i = 0; i < 5; i++) tilt = rampAxis(tilt, 1, 0.05);
+
+    expect(rampAxis(0, 1, 0.05)).toBeCloseTo(0.2);
+    expect(tilt).toBe(1);
+  });
+
+  it('should release faster than it ramps up', () => {
+    expect(rampAxis(1, 0, 0.05)).toBeCloseTo(0.6);
+  });
+
+  it('should ease through zero when reversing', () => {
+    expect(rampAxis(0.5, -1, 0.05)).toBeCloseTo(0.1);
+  });
+
+  it('should not overshoot the target', () => {
+    expect(rampAxis(0.95, 1, 0.1)).toBe(1);
+  });
+});
+
+describe('Input - Gamepad', () => {
+  it('should read the left stick', () => {
+    const input = readGamepad(fakePad([1, 0, 0, 0]));
+    expect(input).toEqual({ tiltX: 1, tiltY: 0 });
+  });
+
+  it('should use whichever stick is pushed further', () => {
+    const input = readGamepad(fakePad([0.3, 0, 0, -0.9]))!;
+
+    expect(input.tiltX).toBe(0);
+    expect(input.tiltY).toBeLessThan(-0.8);
+  });
+
+  it('should ignore stick drift inside the dead zone', () => {
+    expect(readGamepad(fakePad([0.05, -0.08, 0, 0]))).toBeNull();
+  });
+
+  it('should fall back to the d-pad', () => {
+    expect(readGamepad(fakePad([0, 0, 0, 0], [13, 15]))).toEqual({ tiltX: 1, tiltY: 1 });
+  });
+});
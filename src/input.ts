@@ -1,79 +1,97 @@
 import { InputState } from './physics';
+import { OrientationInput } from './orientation';
+import { PointerInput } from './pointer';
+import { KeyboardInput } from './keyboard';
+import { GamepadInput } from './gamepad';
+import { InputFilterSettings, DEFAULT_INPUT_FILTER, createInputFilter } from './input-filter';
 
 /**
- * Input manager for mouse and touch
+ * Something the player can tilt the maze with
  */
-export class InputManager {
-  private input: InputState = { tiltX: 0, tiltY: 0 };
-  private isDragging = false;
-  private startPos = { x: 0, y: 0 };
-  private canvas: HTMLCanvasElement;
+export interface InputSource {
+  /** Tilt for the next `dt` seconds of play, or null while the player isn't using this source */
+  read(dt: number): InputState | null;
+}
 
-  constructor(canvas: HTMLCanvasElement) {
-    this.canvas = canvas;
-    this.setupMouseInput();
-  }
+/**
+ * Combine active sources into one tilt. Sources add together so, for
+ * example, a drag can nudge the maze while the phone is tilted.
+ */
+export function mergeInputs(inputs: (InputState | null)[]): InputState {
+  let tiltX = 0;
+  let tiltY = 0;
 
-  private setupMouseInput() {
-    this.canvas.addEventListener('mousedown', (e) => {
-      e.preventDefault();
-      this.isDragging = true;
-      this.startPos = { x: e.clientX, y: e.clientY };
-    });
+  for (const input of inputs) {
+    if (!input) continue;
+    tiltX += input.tiltX;
+    tiltY += input.tiltY;
+  }
 
-    this.canvas.addEventListener('mousemove', (e) => {
-      if (!this.isDragging) return;
+  return {
+    tiltX: Math.max(-1, Math.min(1, tiltX)),
+    tiltY: Math.max(-1, Math.min(1, tiltY)),
+  };
+}
 
-      const dx = e.clientX - this.startPos.x;
-      const dy = e.clientY - this.startPos.y;
+/**
+ * Input manager merging mouse/touch, keyboard, gamepad and device tilt
+ */
+export class InputManager {
+  private sources: InputSource[] = [];
+  private orientation: OrientationInput | null = null;
+  private filter: ReturnType<typeof createInputFilter>;
 
-      // Map to tilt range [-1, 1]
-      this.input.tiltX = this.clamp(dx / 100, -1, 1);
-      this.input.tiltY = this.clamp(dy / 100, -1, 1);
-    });
+  constructor(canvas: HTMLCanvasElement, filterSettings = DEFAULT_INPUT_FILTER) {
+    this.filter = createInputFilter(filterSettings);
 
-    window.addEventListener('mouseup', () => {
-      if (this.isDragging) {
-        this.isDragging = false;
-        this.input.tiltX = 0;
-        this.input.tiltY = 0;
-      }
-    });
+    this.addSource(new PointerInput(canvas));
+    this.addSource(new KeyboardInput());
+    if (GamepadInput.isSupported()) {
+      this.addSource(new GamepadInput());
+    }
+  }
 
-    // Touch support for mobile
-    this.canvas.addEventListener('touchstart', (e) => {
-      e.preventDefault();
-      this.isDragging = true;
-      const touch = e.touches[0];
-      this.startPos = { x: touch.clientX, y: touch.clientY };
-    });
+  addSource(source: InputSource) {
+    this.sources.push(source);
+  }
 
-    window.addEventListener('touchmove', (e) => {
-      if (!this.isDragging) return;
-      e.preventDefault();
-      const touch = e.touches[0];
+  /**
+   * Whether tilting the device can be offered as a control
+   */
+  canUseOrientation(): boolean {
+    return OrientationInput.isSupported() && 'ontouchstart' in window;
+  }
 
-      const dx = touch.clientX - this.startPos.x;
-      const dy = touch.clientY - this.startPos.y;
+  /**
+   * Switch on device tilt (asking permission where needed). Must be called
+   * from a user gesture. Calling again recalibrates the neutral pose.
+   */
+  async enableOrientation(): Promise<boolean> {
+    if (this.orientation) {
+      this.orientation.calibrate();
+      return true;
+    }
 
-      this.input.tiltX = this.clamp(dx / 100, -1, 1);
-      this.input.tiltY = this.clamp(dy / 100, -1, 1);
-    });
+    const orientation = new OrientationInput();
+    if (!(await orientation.enable())) return false;
 
-    window.addEventListener('touchend', () => {
-      if (this.isDragging) {
-        this.isDragging = false;
-        this.input.tiltX = 0;
-        this.input.tiltY = 0;
-      }
-    });
+    this.orientation = orientation;
+    this.addSource(orientation);
+    return true;
   }
 
-  getInput(): InputState {
-    return this.input;
+  /**
+   * Change how raw input is smoothed and shaped (e.g. while tuning feel)
+   */
+  setFilterSettings(settings: InputFilterSettings) {
+    this.filter = createInputFilter(settings);
   }
 
-  private clamp(value: number, min: number, max: number): number {
-    return Math.max(min, Math.min(max, value));
+  /**
+   * Processed tilt for the next `dt` seconds of play
+   */
+  getInput(dt: number): InputState {
+    const raw = mergeInputs(this.sources.map((source) => source.read(dt)));
+    return this.filter.process(raw, dt);
   }
 }
@@ -0,0 +1,95 @@
+import { InputState } from './physics';
+import type { InputSource } from './input';
+
+/** Tilt gained per second while a key is held (full tilt in 0.25s) */
+const RAMP_UP_RATE = 4;
+/** Tilt lost per second after release, so the ball settles quickly */
+const RAMP_DOWN_RATE = 8;
+/** Tilt while Shift is held, for careful moves past holes */
+const PRECISION_SCALE = 0.4;
+
+const KEY_DIRECTIONS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+  KeyA: [-1, 0],
+  KeyD: [1, 0],
+  KeyW: [0, -1],
+  KeyS: [0, 1],
+};
+
+/**
+ * Move one axis of tilt towards its target over `dt` seconds, ramping up
+ * more slowly than it releases
+ */
+export function rampAxis(current: number, target: number, dt: number): number {
+  const reversing = current !== 0 && Math.sign(target) !== Math.sign(current);
+  const easing = reversing || Math.abs(target) < Math.abs(current);
+  const step = (easing ? RAMP_DOWN_RATE : RAMP_UP_RATE) * dt;
+
+  if (Math.abs(target - current) <= step) return target;
+  return current + Math.sign(target - current) * step;
+}
+
+/**
+ * Arrow keys / WASD with analog-style ramping
+ */
+export class KeyboardInput implements InputSource {
+  private pressed = new Set<string>();
+  private precise = false;
+  private tilt: InputState = { tiltX: 0, tiltY: 0 };
+
+  constructor() {
+    window.addEventListener('keydown', (e) => {
+      this.precise = e.shiftKey;
+      if (!(e.code in KEY_DIRECTIONS) || isTyping(e.target)) return;
+      e.preventDefault(); // Don't scroll the page
+      this.pressed.add(e.code);
+    });
+
+    window.addEventListener('keyup', (e) => {
+      this.precise = e.shiftKey;
+      this.pressed.delete(e.code);
+    });
+
+    // Keys released while the tab is unfocused never send keyup
+    window.addEventListener('blur', () => this.pressed.clear());
+  }
+
+  /**
+   * Ramped by the game's step rather than the wall clock, so the same key
+   * presses give the same tilt tick for tick
+   */
+  read(dt: number): InputState | null {
+    let targetX = 0;
+    let targetY = 0;
+    for (const code of this.pressed) {
+      targetX += KEY_DIRECTIONS[code][0];
+      targetY += KEY_DIRECTIONS[code][1];
+    }
+
+    const scale = this.precise ? PRECISION_SCALE : 1;
+    targetX = Math.max(-1, Math.min(1, targetX)) * scale;
+    targetY = Math.max(-1, Math.min(1, targetY)) * scale;
+
+    this.tilt = {
+      tiltX: rampAxis(this.tilt.tiltX, targetX, dt),
+      tiltY: rampAxis(this.tilt.tiltY, targetY, dt),
+    };
+
+    if (this.tilt.tiltX === 0 && this.tilt.tiltY === 0) return null;
+    return { ...this.tilt };
+  }
+}
+
+/**
+ * Whether a key event is going into a text field rather than the game
+ */
+export function isTyping(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    (target instanceof HTMLElement && target.isContentEditable)
+  );
+}
@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { KeyValueStore } from './storage';
+import {
+  PLAYER_KEY,
+  QUEUE_KEY,
+  RETRY_DELAYS,
+  RankResponse,
+  ScoreSubmission,
+  cleanName,
+  createLeaderboardClient,
+  loadPlayer,
+  savePlayerName,
+} from './leaderboard';
+
+const createStore = (initial: Record<string, string> = {}): KeyValueStore & { data: Record<string, string> } => {
+  const data = { ...initial };
+  return {
+    data,
+    getItem: (key) => (key in data ? data[key] : null),
+    setItem: (key, value) => {
+      data[key] = value;
+    },
+  };
+};
+
+const rank = (seed: number): RankResponse => ({
+  seed,
+  total: 1,
+  entry: { rank: 1, name: 'Ada', timeMs: 20000, resets: 0 },
+});
+
+const submission = (replay: string): ScoreSubmission => ({ playerId: 'p1', name: 'Ada', replay });
+
+// Stands in for the server: answers with `reply` while online, fails like fetch does while offline
+const createFakeServer = () => {
+  const server = {
+    online: true,
+    reply: (_url: string, _init?: RequestInit) => ({ status: 201, body: rank(20100) as unknown }),
+    received: [] as string[],
+    fetch: (async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (!server.online) throw new TypeError('Failed to fetch');
+      const url = String(input);
+      server.received.push(init?.body ? `${url} ${init.body}` : url);
+      const { status, body } = server.reply(url, init);
+      return new Response(JSON.stringify(body), { status });
+    }) as typeof fetch,
+  };
+  return server;
+};
+
+const queued = (store: ReturnType<typeof createStore>) => JSON.parse(store.data[QUEUE_KEY] ?? '[]');
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('Leaderboard client - Submitting', () => {
+  it('should post the run and return its rank', async () => {
+    const server = createFakeServer();
+    const client = createLeaderboardClient({ baseUrl: 'http://lb/', fetch: server.fetch, store: createStore() });
+
+    const outcome = await client.submit(submission('r1'));
+
+    expect(outcome).toEqual({ status: 'ranked', rank: rank(20100) });
+    expect(server.received).toEqual([`http://lb/api/scores ${JSON.stringify(submission('r1'))}`]);
+  });
+
+  it('should drop runs the server refuses', async () => {
+    const server = createFakeServer();
+    server.reply = () => ({ status: 400, body: { errors: ['Claimed 10 ticks but run took 20'] } });
+    const store = createStore();
+    const client = createLeaderboardClient({ baseUrl: 'http://lb', fetch: server.fetch, store });
+
+    expect(await client.submit(submission('r1'))).toEqual({
+      status: 'rejected',
+      errors: ['Claimed 10 ticks but run took 20'],
+    });
+    expect(client.pending()).toBe(0);
+  });
+
+  it('should queue runs while offline or when the server errors', async () => {
+    vi.useFakeTimers();
+    const server = createFakeServer();
+    const store = createStore();
+    const client = createLeaderboardClient({ baseUrl: 'http://lb', fetch: server.fetch, store });
+
+    server.online = false;
+    expect(await client.submit(submission('r1'))).toEqual({ status: 'queued' });
+    server.online = true;
+    server.reply = () => ({ status: 503, body: { errors: ['Busy'] } });
+    expect(await client.submit(submission('r2'))).toEqual({ status: 'queued' });
+
+    expect(queued(store).map((run: ScoreSubmission) => run.replay)).toEqual(['r1', 'r2']);
+    client.dispose();
+  });
+});
+
+describe('Leaderboard client - Retrying', () => {
+  it('should deliver queued runs in order once the server is back', async () => {
+    const server = createFakeServer();
+    const store = createStore({ [QUEUE_KEY]: JSON.stringify([submission('r1'), submission('r2')]) });
+    const client = createLeaderboardClient({ baseUrl: 'http://lb', fetch: server.fetch, store });
+
+    expect(await client.flush()).toBe(0);
+    expect(server.received.map((line) => JSON.parse(line.split(' ')[1]).replay)).toEqual(['r1', 'r2']);
+    expect(queued(store)).toEqual([]);
+  });
+
+  it('should send a new run after older queued ones', async () => {
+    const server = createFakeServer();
+    const store = createStore({ [QUEUE_KEY]: JSON.stringify([submission('old')]) });
+    const client = createLeaderboardClient({ baseUrl: 'http://lb', fetch: server.fetch, store });
+
+    expect((await client.submit(submission('new'))).status).toBe('ranked');
+    expect(server.received.map((line) => JSON.parse(line.split(' ')[1]).replay)).toEqual(['old', 'new']);
+  });
+
+  it('should retry with backoff until delivery succeeds', async () => {
+    vi.useFakeTimers();
+    const server = createFakeServer();
+    const store = createStore();
+    const client = createLeaderboardClient({ baseUrl: 'http://lb', fetch: server.fetch, store });
+
+    server.online = false;
+    await client.submit(submission('r1'));
+    await vi.advanceTimersByTimeAsync(RETRY_DELAYS[0]);
+    expect(client.pending()).toBe(1);
+
+    server.online = true;
+    await vi.advanceTimersByTimeAsync(RETRY_DELAYS[1] - 1);
+    expect(client.pending()).toBe(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(client.pending()).toBe(0);
+    expect(server.received).toHaveLength(1);
+  });
+
+  it('should keep the queue in memory without storage access', async () => {
+    vi.useFakeTimers();
+    const server = createFakeServer();
+    server.online = false;
+    const client = createLeaderboardClient({ baseUrl: 'http://lb', fetch: server.fetch, store: null });
+
+    expect(await client.submit(submission('r1'))).toEqual({ status: 'queued' });
+    expect(client.pending()).toBe(1);
+
+    server.online = true;
+    await vi.advanceTimersByTimeAsync(RETRY_DELAYS[0]);
+    expect(client.pending()).toBe(0);
+    expect(server.received).toHaveLength(1);
+  });
+});
+
+describe('Leaderboard client - Queries', () => {
+  it('should fetch a board', async () => {
+    const server = createFakeServer();
+    const board = { seed: 20100, total: 0, entries: [] };
+    server.reply = () => ({ status: 200, body: board });
+    const client = createLeaderboardClient({ baseUrl: 'http://lb', fetch: server.fetch, store: createStore() });
+
+    expect(await client.getBoard(20100, 5)).toEqual(board);
+    expect(server.received).toEqual(['http://lb/api/boards/20100?limit=5']);
+  });
+
+  it('should return null for a player with no run', async () => {
+    const server = createFakeServer();
+    server.reply = () => ({ status: 404, body: { errors: ['No run on this board'] } });
+    const client = createLeaderboardClient({ baseUrl: 'http://lb', fetch: server.fetch, store: createStore() });
+
+    expect(await client.getRank(20100, 'p 1')).toBeNull();
+    expect(server.received).toEqual(['http://lb/api/boards/20100/players/p%201']);
+  });
+});
+
+describe('Leaderboard client - Player', () => {
+  it('should create an id once and keep it', () => {
+    const store = createStore();
+    const player = loadPlayer(store);
+
+    expect(player.name).toBe('Anonymous');
+    expect(loadPlayer(store)).toEqual(player);
+  });
+
+  it('should rename without changing the id', () => {
+    const store = createStore();
+    const { id } = loadPlayer(store);
+    savePlayerName('  Grace   Hopper ', store);
+
+    expect(JSON.parse(store.data[PLAYER_KEY])).toEqual({ id, name: 'Grace Hopper' });
+  });
+
+  it('should trim names to fit a board', () => {
+    expect(cleanName('x'.repeat(50))).toHaveLength(20);
+    expect(cleanName('   ')).toBe('Anonymous');
+  });
+});
@@ -0,0 +1,262 @@
+import { KeyValueStore, defaultStore } from './storage';
+
+export const QUEUE_KEY = 'ball-in-a-maze-le:leaderboard-queue';
+export const PLAYER_KEY = 'ball-in-a-maze-le:player';
+
+/** Longest name shown on a board */
+export const MAX_NAME_LENGTH = 20;
+
+/** Waits between retries of queued submissions (ms); the last one repeats */
+export const RETRY_DELAYS = [2000, 10000, 30000, 60000];
+
+/**
+ * A finished daily run sent to the leaderboard. The server re-simulates the
+ * replay, so the time is never taken on trust.
+ */
+export interface ScoreSubmission {
+  playerId: string; // Random id kept on the device; one entry per player per board
+  name: string;
+  replay: string; // serializeReplay output
+}
+
+/**
+ * One row of a board as the server reports it
+ */
+export interface LeaderboardEntry {
+  rank: number; // 1 is fastest
+  name: string;
+  timeMs: number;
+  resets: number;
+}
+
+/**
+ * GET /api/boards/:seed
+ */
+export interface BoardResponse {
+  seed: number;
+  total: number; // Players on the board, including those past the limit
+  entries: LeaderboardEntry[];
+}
+
+/**
+ * POST /api/scores, and GET /api/boards/:seed/players/:playerId
+ */
+export interface RankResponse {
+  seed: number;
+  total: number;
+  entry: LeaderboardEntry; // The player's best run on the board
+}
+
+/**
+ * Body of any 4xx/5xx reply
+ */
+export interface ErrorResponse {
+  errors: string[];
+}
+
+/**
+ * What became of a submission: ranked now, queued to retry later (offline
+ * or the server is down), or refused by the server and dropped
+ */
+export type SubmitOutcome =
+  | { status: 'ranked'; rank: RankResponse }
+  | { status: 'queued' }
+  | { status: 'rejected'; errors: string[] };
+
+export interface LeaderboardClientOptions {
+  baseUrl: string; // e.g. http://localhost:8787
+  fetch?: typeof fetch; // Swap in a fake for tests
+  store?: KeyValueStore | null; // Where the offline queue lives
+}
+
+/**
+ * Talks to the leaderboard server. Submissions that can't be delivered are
+ * queued and retried with backoff. The queue is also saved to storage so the
+ * next page load picks it up; without storage it only lasts while the page is open.
+ */
+export function createLeaderboardClient(options: LeaderboardClientOptions) {
+  const send = options.fetch ?? ((input, init) => fetch(input, init));
+  const store = options.store === undefined ? defaultStore() : options.store;
+  const baseUrl = options.baseUrl.replace(/\/$/, '');
+  let retries = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let flushing: Promise<number> | null = null;
+  const queue = readQueue(store);
+
+  // Throws on network failure; resolves with the status and parsed body otherwise
+  const request = async <T>(path: string, init?: RequestInit): Promise<{ status: number; body: T }> => {
+    const response = await send(`${baseUrl}${path}`, init);
+    return { status: response.status, body: await response.json() };
+  };
+
+  const post = (submission: ScoreSubmission) =>
+    request<RankResponse | ErrorResponse>('/api/scores', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(submission),
+    });
+
+  const deliver = async (submission: ScoreSubmission): Promise<SubmitOutcome> => {
+    try {
+      const { status, body } = await post(submission);
+      if (status < 300) return { status: 'ranked', rank: body as RankResponse };
+      // Server errors are worth another go; anything else will fail the same way again
+      if (status < 500) return { status: 'rejected', errors: (body as ErrorResponse).errors ?? [] };
+    } catch {
+      // Offline or the server isn't running
+    }
+    return { status: 'queued' };
+  };
+
+  const scheduleRetry = () => {
+    if (timer || queue.length === 0) return;
+    const delay = RETRY_DELAYS[Math.min(retries, RETRY_DELAYS.length - 1)];
+    retries++;
+    timer = setTimeout(() => {
+      timer = null;
+      client.flush();
+    }, delay);
+  };
+
+  const client = {
+    /**
+     * Send a run, queueing it if the server can't be reached
+     */
+    async submit(submission: ScoreSubmission): Promise<SubmitOutcome> {
+      // Earlier runs go first, so anything still stuck means this one waits too
+      if (queue.length > 0 && (await client.flush()) > 0) {
+        queue.push(submission);
+        writeQueue(store, queue);
+        return { status: 'queued' };
+      }
+
+      const outcome = await deliver(submission);
+      if (outcome.status === 'queued') {
+        queue.push(submission);
+        writeQueue(store, queue);
+        scheduleRetry();
+      }
+      return outcome;
+    },
+
+    /**
+     * Retry queued submissions in order, stopping at the first that still
+     * can't be delivered. Resolves with how many are left.
+     */
+    flush(): Promise<number> {
+      flushing ??= (async () => {
+        while (queue.length > 0) {
+          const outcome = await deliver(queue[0]);
+          if (outcome.status === 'queued') break;
+          if (outcome.status === 'rejected') console.warn('Leaderboard refused a queued run', outcome.errors);
+          queue.shift();
+          writeQueue(store, queue);
+        }
+
+        if (queue.length === 0) retries = 0;
+        return queue.length;
+      })().finally(() => {
+        flushing = null;
+        scheduleRetry();
+      });
+      return flushing;
+    },
+
+    /**
+     * Runs waiting to be delivered
+     */
+    pending(): number {
+      return queue.length;
+    },
+
+    /**
+     * Fastest runs on a day's board
+     */
+    async getBoard(seed: number, limit = 10): Promise<BoardResponse> {
+      const { status, body } = await request<BoardResponse | ErrorResponse>(`/api/boards/${seed}?limit=${limit}`);
+      if (status >= 300) throw new Error(`Leaderboard error: ${(body as ErrorResponse).errors.join('; ')}`);
+      return body as BoardResponse;
+    },
+
+    /**
+     * A player's place on a day's board, or null if they have no run there
+     */
+    async getRank(seed: number, playerId: string): Promise<RankResponse | null> {
+      const path = `/api/boards/${seed}/players/${encodeURIComponent(playerId)}`;
+      const { status, body } = await request<RankResponse | ErrorResponse>(path);
+      if (status === 404) return null;
+      if (status >= 300) throw new Error(`Leaderboard error: ${(body as ErrorResponse).errors.join('; ')}`);
+      return body as RankResponse;
+    },
+
+    /**
+     * Stop any pending retry (the queue itself is kept)
+     */
+    dispose() {
+      if (timer) clearTimeout(timer);
+      timer = null;
+    },
+  };
+
+  return client;
+}
+
+export type LeaderboardClient = ReturnType<typeof createLeaderboardClient>;
+
+/**
+ * This device's player id and display name, created on first use
+ */
+export function loadPlayer(store: KeyValueStore | null = defaultStore()): { id: string; name: string } {
+  const fresh = { id: randomId(), name: 'Anonymous' };
+  if (!store) return fresh;
+
+  try {
+    const saved = JSON.parse(store.getItem(PLAYER_KEY) ?? 'null');
+    if (typeof saved?.id === 'string' && typeof saved.name === 'string') return saved;
+  } catch {
+    // Unreadable; start over with a new id
+  }
+  store.setItem(PLAYER_KEY, JSON.stringify(fresh));
+  return fresh;
+}
+
+/**
+ * Change the name shown on boards, keeping the player id
+ */
+export function savePlayerName(name: string, store: KeyValueStore | null = defaultStore()) {
+  if (!store) return;
+  const player = loadPlayer(store);
+  store.setItem(PLAYER_KEY, JSON.stringify({ ...player, name: cleanName(name) }));
+}
+
+/**
+ * Trim a display name to something a board can show
+ */
+export function cleanName(name: string): string {
+  return name.replace(/\s+/g, ' ').trim().slice(0, MAX_NAME_LENGTH) || 'Anonymous';
+}
+
+function readQueue(store: KeyValueStore | null): ScoreSubmission[] {
+  if (!store) return [];
+  try {
+    const queue = JSON.parse(store.getItem(QUEUE_KEY) ?? '[]');
+    return Array.isArray(queue) ? queue : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeQueue(store: KeyValueStore | null, queue: ScoreSubmission[]) {
+  try {
+    store?.setItem(QUEUE_KEY, JSON.stringify(queue));
+  } catch (error) {
+    // Quota exceeded or storage disabled (private browsing)
+    console.error('Could not save leaderboard queue', error);
+  }
+}
+
+function randomId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : Math.random().toString(36).slice(2) + Date.now().toString(36);
+}
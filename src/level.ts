@@ -0,0 +1,156 @@
+import { generateMaze, transposeMaze, Checkpoint, GenerateOptions, Maze } from './maze';
+import { GeneratorAlgorithm } from './generators';
+import { TileCounts } from './tiles';
+import { PlacementStrategy } from './placement';
+import { Config } from './physics';
+import { analyzeMaze, solveMaze } from './analysis';
+import { generatorVersionFor } from './seed';
+
+/** Attempts before giving up on finding a board that passes the threshold */
+const MAX_REROLLS = 20;
+
+/**
+ * Everything needed to rebuild a level and its physics from a seed
+ */
+export interface LevelConfig extends Config {
+  HOLE_COUNT: number;
+  MIN_CLEARANCE?: number; // Re-roll boards whose path is tighter than this (cell units)
+  GENERATOR?: GeneratorAlgorithm;
+  BRAID?: number; // Chance (0-1) of turning each dead end into a loop
+  TRANSPOSE?: boolean; // Play the GRID_WIDTH x GRID_HEIGHT board mirrored (wide <-> tall)
+  CHECKPOINTS?: number; // Respawn tiles along the solution path (0 = always back to the start)
+  TILES?: TileCounts; // Ice, mud, slopes, bumpers, gates and doors to scatter
+  PLACEMENT?: PlacementStrategy; // Where the start and goal go (corners by default)
+  MIN_GOAL_DISTANCE?: number; // Shortest start-to-goal route for random placement (cells)
+  GENERATOR_VERSION?: number; // Pins the generator (see seed.ts); defaults to the one live on the seed's day
+}
+
+/**
+ * Official settings for the daily puzzle (landscape screens play it
+ * mirrored with TRANSPOSE). Leaderboard runs are checked against these.
+ */
+export const DAILY_CONFIG: LevelConfig = {
+  GRID_WIDTH: 8,
+  GRID_HEIGHT: 8,
+  GRAVITY: 1200,
+  FRICTION: 0.98,
+  BALL_RADIUS_RATIO: 0.3,
+  RESTITUTION: 0.3,
+  HOLE_PULL: 0.5,
+  SKIM_SPEED: 16, // Full tilt tops out near 14 cells/s, so only a run across ice carries the ball over
+  CHECKPOINTS: 0, // The daily puzzle always sends you back to the start
+  BALL_COUNT: 1,
+  HOLE_COUNT: 16,
+  GENERATOR: 'backtracker',
+  BRAID: 0,
+  HOLE_RADIUS_RATIO: 0.2,
+  GOAL_RADIUS_RATIO: 0.3,
+};
+
+/**
+ * Build the maze for a seed. Anything that needs to reproduce a run
+ * (replays, verification) must go through here so it sees the same board.
+ */
+export function buildLevel(seed: number, config: LevelConfig): Maze {
+  let maze = generateLevel(seed, config);
+  if (config.CHECKPOINTS) {
+    maze = { ...maze, checkpoints: placeCheckpoints(maze, config.CHECKPOINTS) };
+  }
+  return config.TRANSPOSE ? transposeMaze(maze) : maze;
+}
+
+/**
+ * Spread checkpoints evenly along the solution path, nudging each one
+ * forward off any cell that has a hole in it
+ */
+export function placeCheckpoints(maze: Maze, count: number): Checkpoint[] {
+  const path = solveMaze(maze, maze.start, maze.goal);
+  const hasHole = (cell: Checkpoint) => maze.holes.some((h) => h.x === cell.x && h.y === cell.y);
+  const checkpoints: Checkpoint[] = [];
+  let previous = 0;
+
+  for (let i = 1; i <= count; i++) {
+    let index = Math.max(previous + 1, Math.round((i * (path.length - 1)) / (count + 1)));
+    while (index < path.length - 1 && hasHole(path[index])) index++;
+    if (index >= path.length - 1) break;
+
+    checkpoints.push(path[index]);
+    previous = index;
+  }
+
+  return checkpoints;
+}
+
+function generateLevel(seed: number, config: LevelConfig): Maze {
+  // Worked out from the day's seed, not each re-roll's, so every attempt uses the generator a replay pins
+  const options: GenerateOptions = {
+    version: config.GENERATOR_VERSION ?? generatorVersionFor(seed),
+    algorithm: config.GENERATOR,
+    braid: config.BRAID,
+    tiles: config.TILES,
+    placement: config.PLACEMENT,
+    minGoalDistance: config.MIN_GOAL_DISTANCE,
+  };
+
+  if (config.MIN_CLEARANCE === undefined) {
+    return generateMaze(seed, config.GRID_WIDTH, config.GRID_HEIGHT, config.HOLE_COUNT, options);
+  }
+
+  // Re-roll deterministically until the solution path is passable,
+  // falling back to the least blocked board if none qualify
+  let best: { maze: Maze; clearance: number } | null = null;
+
+  for (let attempt = 0; attempt < MAX_REROLLS; attempt++) {
+    const maze = generateMaze(
+      rerollSeed(seed, attempt),
+      config.GRID_WIDTH,
+      config.GRID_HEIGHT,
+      config.HOLE_COUNT,
+      options
+    );
+    const analysis = analyzeMaze(maze, config, config.MIN_CLEARANCE);
+
+    if (analysis.solvable) return maze;
+    if (!best || analysis.minClearance > best.clearance) {
+      best = { maze, clearance: analysis.minClearance };
+    }
+  }
+
+  return best!.maze;
+}
+
+/**
+ * Seed for the nth re-roll; attempt 0 is the original seed
+ */
+export function rerollSeed(seed: number, attempt: number): number {
+  return (seed + Math.imul(attempt, 0x9e3779b9)) | 0;
+}
+
+/**
+ * Strip non-gameplay settings (colors etc.) from a config
+ */
+export function pickLevelConfig(config: LevelConfig): LevelConfig {
+  return {
+    GRID_WIDTH: config.GRID_WIDTH,
+    GRID_HEIGHT: config.GRID_HEIGHT,
+    GRAVITY: config.GRAVITY,
+    FRICTION: config.FRICTION,
+    BALL_RADIUS_RATIO: config.BALL_RADIUS_RATIO,
+    HOLE_RADIUS_RATIO: config.HOLE_RADIUS_RATIO,
+    GOAL_RADIUS_RATIO: config.GOAL_RADIUS_RATIO,
+    HOLE_COUNT: config.HOLE_COUNT,
+    ...(config.RESTITUTION !== undefined && { RESTITUTION: config.RESTITUTION }),
+    ...(config.HOLE_PULL !== undefined && { HOLE_PULL: config.HOLE_PULL }),
+    ...(config.SKIM_SPEED !== undefined && { SKIM_SPEED: config.SKIM_SPEED }),
+    ...(config.BALL_COUNT !== undefined && { BALL_COUNT: config.BALL_COUNT }),
+    ...(config.MIN_CLEARANCE !== undefined && { MIN_CLEARANCE: config.MIN_CLEARANCE }),
+    ...(config.GENERATOR !== undefined && { GENERATOR: config.GENERATOR }),
+    ...(config.BRAID !== undefined && { BRAID: config.BRAID }),
+    ...(config.TRANSPOSE !== undefined && { TRANSPOSE: config.TRANSPOSE }),
+    ...(config.CHECKPOINTS !== undefined && { CHECKPOINTS: config.CHECKPOINTS }),
+    ...(config.TILES !== undefined && { TILES: { ...config.TILES } }),
+    ...(config.PLACEMENT !== undefined && { PLACEMENT: config.PLACEMENT }),
+    ...(config.MIN_GOAL_DISTANCE !== undefined && { MIN_GOAL_DISTANCE: config.MIN_GOAL_DISTANCE }),
+    ...(config.GENERATOR_VERSION !== undefined && { GENERATOR_VERSION: config.GENERATOR_VERSION }),
+  };
+}
@@ -1,34 +1,84 @@
-import { getTodaySeed } from './utils';
-import { generateMaze, Maze } from './maze';
-import { Ball, updateBall, resetBall } from './physics';
-import { render, setupCanvas } from './renderer';
+import { formatTime, getTodaySeed } from './utils';
+import { Maze } from './maze';
+import { InputState } from './physics';
+import { DAILY_CONFIG, LevelConfig, buildLevel } from './level';
+import {
+  Simulation,
+  createSimulation,
+  advanceSimulation,
+  getInterpolatedBalls,
+  getFallProgress,
+  toDisplayBall,
+  SIM_CELL_SIZE,
+  TICK_DT,
+  TickResult,
+} from './simulation';
+import { render, renderSnapshot, setupCanvas, isLandscapeViewport, WinSummary } from './renderer';
 import { InputManager } from './input';
+import { isTyping } from './keyboard';
+import { DEFAULT_INPUT_FILTER } from './input-filter';
+import {
+  Replay,
+  createRecorder,
+  createReplayPlayer,
+  deserializeReplay,
+  quantizeInput,
+  serializeReplay,
+} from './replay';
+import { computeStats, loadProgress, recordGhost, recordResult, saveProgress } from './storage';
+import { Point } from './analysis';
+import { ShareResult, buildShareText, copyResult, puzzleNumber, shareResult } from './share';
+import { GameMode, countsTowardStats, listArchive, parseGameParams } from './params';
+import { LevelEditor } from './editor-view';
+import { MazeMeta, decodeMaze } from './maze-file';
+import {
+  RunState,
+  START_TILT,
+  advanceCountdown,
+  createRunState,
+  currentMessage,
+  isRunning,
+  sendRunEvent,
+  showMessage,
+} from './run-state';
+import { Ghost, createGhostRecorder, ghostFromReplay, ghostPositions } from './ghost';
+import { verifyRun } from './verifier';
+import { nextRollover, watchRollover } from './schedule';
+import { LeaderboardClient, createLeaderboardClient, loadPlayer, savePlayerName } from './leaderboard';
 
 // Configuration
 const CONFIG = {
-  GRID_SIZE: 8,
-  GRAVITY: 1200,
-  FRICTION: 0.98,
-  BALL_RADIUS_RATIO: 0.3,
-  HOLE_COUNT: 16,
-  HOLE_RADIUS_RATIO: 0.2,
-  GOAL_RADIUS_RATIO: 0.3,
+  ...DAILY_CONFIG,
   WALL_COLOR: '#d4a760',
   BG_COLOR: '#f4e8d0',
   HOLE_COLOR: '#2a2a2a',
   GOAL_COLOR: '#2d5',
   BALL_COLOR: '#456',
+  CHECKPOINT_COLOR: '#cfe3c0',
 };
 
+// Ticks between trail samples for the share snapshot
+const TRAIL_INTERVAL = 6;
+
 // Game state
 let maze: Maze;
-let ball: Ball;
+let sim: Simulation;
 let cellSize: number;
-let inputManager: InputManager;
-let won = false;
+let readInput: (tick: number) => InputState;
+let inputManager: InputManager | null = null; // Live input, null while watching a replay
+let recorder: ReturnType<typeof createRecorder> | null = null;
+let ghostRecorder: ReturnType<typeof createGhostRecorder> | null = null;
+let ghostsAt: (tick: number) => Point[] = () => []; // Ghost balls to race at a tick (simulation units)
+let lastInput: InputState = { tiltX: 0, tiltY: 0 };
+let mode: GameMode = 'daily';
+let seed = 0; // Board being played; for daily and archive boards, its day
+let run: RunState = createRunState();
+let beginRun: () => void; // Fresh simulation (and recorder) for the current board
+let trails: (Point | null)[][] = []; // Each ball's path in simulation units, null where it fell
+let summary: WinSummary | null = null;
+let leaderboard: LeaderboardClient | null = null; // Set when a leaderboard server was given
 let lastTime = 0;
-let message: string | null = null;
-let messageEndTime = 0;
+let frame = 0; // Pending animation frame, cancelled when leaving a test run
 
 /**
  * Initialize game
@@ -47,65 +97,539 @@ function init() {
     return;
   }
 
-  // Setup canvas
-  cellSize = setupCanvas(canvas, CONFIG.GRID_SIZE);
-
-  // Generate maze from today's seed
-  const seed = getTodaySeed();
-  maze = generateMaze(seed, CONFIG.GRID_SIZE, CONFIG.HOLE_COUNT);
-
-  // Initialize ball at center of top-left cell
-  ball = {
-    x: cellSize * 0.5,
-    y: cellSize * 0.5,
-    vx: 0,
-    vy: 0,
-  };
+  const replay = loadReplayFromHash();
+
+  if (replay) {
+    // Watch a recorded run: inputs come from the replay, not the player,
+    // and there is nothing to wait for before it starts. Watching never counts for anything.
+    mode = 'practice';
+    seed = replay.seed;
+    maze = buildLevel(seed, replay.config);
+    beginRun = () => {
+      sim = createSimulation(maze, replay.config);
+      const player = createReplayPlayer(replay);
+      readInput = (tick) => player.inputAt(tick);
+      sendRunEvent(run, 'tilt');
+      sendRunEvent(run, 'go');
+    };
+  } else {
+    // Today's maze unless the URL asks for another day or custom settings,
+    // wide or tall to suit the screen
+    const params = parseGameParams(window.location.search, getTodaySeed(), CONFIG);
+    params.warnings.forEach((warning) => console.warn(warning));
+    mode = params.mode;
+    seed = params.seed;
+    const custom = params.maze ? loadMazeParam(params.maze) : null;
+
+    if (params.editor) {
+      // Start from the hand-made maze if given, else the board the other parameters describe
+      openEditor(canvas, custom?.maze ?? buildLevel(seed, params.config));
+      return;
+    }
+
+    // Hand-made mazes are played as drawn; generated ones turn to suit the screen
+    const config = { ...params.config, TRANSPOSE: !custom && isLandscapeViewport() };
+    maze = custom?.maze ?? buildLevel(seed, config);
+    showModeLabel(seed, custom?.meta);
+    setupLiveInput(canvas);
+    if (params.leaderboard) setupLeaderboard(params.leaderboard);
+
+    // Daily and archive runs race the personal best on this seed, or the par run until there is one
+    const racing = !custom && mode !== 'practice';
+    let par: Ghost | null = null;
+    const loadRace = (forSeed: number) => {
+      par = null;
+      if (!racing) return;
+      loadPar(forSeed, config).then((ghost) => {
+        if (seed === forSeed) par = ghost;
+      });
+    };
+    loadRace(seed);
+
+    // A tab left waiting for the first tilt moves straight on to the new daily maze.
+    // Runs in progress, paused or won are left alone; pressing R picks it up
+    if (mode === 'daily') {
+      watchRollover(seed, () => {
+        if (run.phase === 'ready') restartRun();
+      });
+    }
 
-  // Setup input
-  inputManager = new InputManager(canvas);
+    // Input is snapped to replay precision so the run can be reproduced.
+    // Replays rebuild the board from its seed, so hand-made mazes aren't recorded.
+    beginRun = () => {
+      if (mode === 'daily' && getTodaySeed() > seed) {
+        seed = getTodaySeed();
+        maze = buildLevel(seed, config);
+        loadRace(seed);
+      }
+
+      sim = createSimulation(maze, config);
+      const runRecorder = custom ? null : createRecorder(seed, config);
+      recorder = runRecorder;
+      ghostRecorder = racing ? createGhostRecorder(config.TRANSPOSE) : null;
+      const best = racing ? loadProgress().ghosts[seed] : undefined;
+      ghostsAt = (tick) => {
+        const ghost = best ?? par;
+        return ghost ? ghostPositions(ghost, tick, config.TRANSPOSE) : [];
+      };
+      readInput = (tick) => {
+        const input = quantizeInput(inputManager!.getInput(TICK_DT));
+        runRecorder?.record(tick, input);
+        return input;
+      };
+    };
+  }
+
+  restartRun();
+  setupRunControls();
+  setupArchive();
+
+  // Setup canvas
+  cellSize = setupCanvas(canvas, maze.width, maze.height);
 
   // Handle window resize
   window.addEventListener('resize', () => {
-    cellSize = setupCanvas(canvas, CONFIG.GRID_SIZE);
+    cellSize = setupCanvas(canvas, maze.width, maze.height);
   });
 
   // Start game loop
-  requestAnimationFrame(gameLoop);
+  frame = requestAnimationFrame(gameLoop);
 }
 
 /**
  * Game loop
  */
 function gameLoop(time: number) {
-  const dt = lastTime ? Math.min((time - lastTime) / 1000, 0.1) : 0;
+  const frameTime = lastTime ? (time - lastTime) / 1000 : 0;
   lastTime = time;
 
-  // Clear message if expired
-  if (message && time >= messageEndTime) {
-    message = null;
-  }
-
-  if (!won) {
-    // Update physics
-    const input = inputManager.getInput();
-    const result = updateBall(ball, input, maze, CONFIG, cellSize, dt);
-
-    if (result.won) {
-      won = true;
-    } else if (result.reset) {
-      message = 'oof';
-      messageEndTime = time + 1000;
-      resetBall(ball, cellSize);
+  if (isRunning(run)) {
+    // Update physics in fixed ticks
+    const readTickInput = (tick: number) => (lastInput = readInput(tick));
+    for (const result of advanceSimulation(sim, frameTime, readTickInput)) {
+      onTick(result, time);
     }
+  } else if (inputManager && run.phase !== 'won') {
+    // The ball waits, but the board follows the tilt so the controls can be felt
+    lastInput = quantizeInput(inputManager.getInput(frameTime));
+    if (Math.abs(lastInput.tiltX) + Math.abs(lastInput.tiltY) >= START_TILT) {
+      sendRunEvent(run, run.phase === 'paused' ? 'resume' : 'tilt');
+    }
+    advanceCountdown(run, frameTime);
   }
 
   // Render
   const canvas = document.getElementById('canvas') as HTMLCanvasElement;
   const ctx = canvas.getContext('2d')!;
-  render(ctx, maze, ball, inputManager.getInput(), CONFIG, cellSize, won, message);
+  const balls = getInterpolatedBalls(sim).map((ball) => toDisplayBall(ball, cellSize));
+  // Same blend between ticks as the live balls, so a run matching the ghost stays on top of it
+  const scale = cellSize / SIM_CELL_SIZE;
+  const ghosts = ghostsAt(Math.max(0, sim.tick - 1 + sim.accumulator / TICK_DT)).map((point) => ({
+    x: point.x * scale,
+    y: point.y * scale,
+  }));
+  const runTime = sim.tick * TICK_DT;
+  const hud = {
+    phase: run.phase,
+    timeMs: Math.round(runTime * 1000),
+    resets: run.resets,
+    countdown: run.countdown,
+    message: currentMessage(run, time),
+    nextMazeMs: nextMazeMs(Date.now()),
+  };
+  render(ctx, maze, balls, lastInput, CONFIG, cellSize, hud, summary, getFallProgress(sim), runTime, ghosts);
+
+  frame = requestAnimationFrame(gameLoop);
+}
+
+/**
+ * Time until the next daily maze, or 0 if it's already out and the board
+ * on screen is yesterday's
+ */
+function nextMazeMs(now: number): number {
+  if (mode === 'daily' && getTodaySeed(now) > seed) return 0;
+  return nextRollover(now) - now;
+}
+
+/**
+ * Move the run along after each simulation tick
+ */
+function onTick(result: TickResult, now: number) {
+  recordTrails(result);
+  ghostRecorder?.record(result, sim);
+
+  for (let i = 0; i < result.fell; i++) sendRunEvent(run, 'fell');
+  if (result.fell) {
+    showMessage(run, 'oof', now);
+  }
+  if (result.reset && !sim.balls.some((simBall) => simBall.falling)) {
+    sendRunEvent(run, 'respawned');
+  }
+  if (result.checkpoint) {
+    showMessage(run, 'checkpoint', now);
+  }
+  if (result.home && !result.won) {
+    const home = sim.balls.filter((simBall) => simBall.home).length;
+    showMessage(run, `${home} of ${sim.balls.length} in`, now);
+  }
+  if (result.won) {
+    sendRunEvent(run, 'won');
+    if (recorder) onRunFinished(recorder.finish(sim.tick), run.resets, ghostRecorder?.finish(sim) ?? null);
+  }
+}
+
+/**
+ * Start the current board again from the beginning
+ */
+function restartRun() {
+  sendRunEvent(run, 'restart');
+  beginRun();
+  trails = sim.balls.map(() => []);
+  summary = null;
+  lastTime = 0;
 
-  requestAnimationFrame(gameLoop);
+  // The last win's result and replay don't match the new run
+  for (const id of ['share-button', 'replay-button']) {
+    const button = document.getElementById(id);
+    if (button) button.hidden = true;
+  }
+}
+
+/**
+ * Restart button and R key; pause whenever the page is hidden or loses focus
+ */
+function setupRunControls() {
+  document.getElementById('restart-button')?.addEventListener('click', restartRun);
+  window.addEventListener('keydown', (e) => {
+    if (e.code === 'KeyR' && !e.repeat && !isTyping(e.target)) restartRun();
+  });
+
+  // Only live runs pause: a replay has no tilt to resume it with, and just keeps playing
+  const pause = () => {
+    if (inputManager) sendRunEvent(run, 'pause');
+  };
+  window.addEventListener('blur', pause);
+  document.addEventListener('visibilitychange', () => {
+    if (document.hidden) pause();
+  });
+}
+
+/**
+ * Merge pointer, keyboard, gamepad and device tilt for live play
+ */
+function setupLiveInput(canvas: HTMLCanvasElement) {
+  inputManager = new InputManager(canvas, DEFAULT_INPUT_FILTER);
+  setupTiltButton(inputManager);
+}
+
+/**
+ * Edit a level by hand, test playing it with the normal physics. Test runs
+ * aren't recorded and never count toward stats.
+ */
+function openEditor(canvas: HTMLCanvasElement, level: Maze) {
+  setupLiveInput(canvas);
+  beginRun = () => {
+    sim = createSimulation(maze, CONFIG);
+    recorder = null;
+    readInput = () => quantizeInput(inputManager!.getInput(TICK_DT));
+  };
+
+  const editor = new LevelEditor(canvas, level, CONFIG, {
+    play: (edited) => {
+      if (!sim) setupRunControls(); // First test run
+      maze = edited;
+      restartRun();
+      cellSize = setupCanvas(canvas, maze.width, maze.height);
+      frame = requestAnimationFrame(gameLoop);
+    },
+    stop: () => cancelAnimationFrame(frame),
+  });
+
+  window.addEventListener('resize', () => {
+    if (!editor.isEditing()) cellSize = setupCanvas(canvas, maze.width, maze.height);
+  });
+}
+
+/**
+ * Sample each ball's path so the share snapshot can draw it
+ */
+function recordTrails(result: TickResult) {
+  const sample = result.tick % TRAIL_INTERVAL === 0 || result.home > 0;
+
+  sim.balls.forEach(({ ball, falling, home }, i) => {
+    const trail = trails[i];
+    const last = trail[trail.length - 1];
+
+    if (falling) {
+      // Break the line so it doesn't jump to the respawn point
+      if (last) trail.push(null);
+    } else if (sample && !(home && last && last.x === ball.x && last.y === ball.y)) {
+      trail.push({ x: ball.x, y: ball.y });
+    }
+  });
+}
+
+/**
+ * Offer device tilt on phones; the same button recalibrates once enabled
+ */
+function setupTiltButton(inputManager: InputManager) {
+  const button = document.getElementById('tilt-button') as HTMLButtonElement | null;
+  if (!button || !inputManager.canUseOrientation()) return;
+
+  button.hidden = false;
+  button.addEventListener('click', async () => {
+    if (await inputManager.enableOrientation()) {
+      button.textContent = 'Recalibrate tilt';
+    } else {
+      button.textContent = 'Tilt unavailable';
+      button.disabled = true;
+    }
+  });
+}
+
+/**
+ * Say which puzzle is being played when it isn't today's
+ */
+function showModeLabel(seed: number, custom?: MazeMeta) {
+  const label = document.getElementById('mode-label');
+  if (!label || mode === 'daily') return;
+
+  label.hidden = false;
+  if (custom) {
+    const by = custom.author ? ` by ${custom.author}` : '';
+    label.textContent = `${custom.name ?? 'Custom maze'}${by} · doesn't count toward stats`;
+  } else {
+    label.textContent =
+      mode === 'archive'
+        ? `Archive #${puzzleNumber(seed)} · doesn't count toward stats`
+        : `Practice (seed ${seed}) · doesn't count toward stats`;
+  }
+}
+
+/**
+ * Fill the archive list with links to previous days' mazes
+ */
+function setupArchive() {
+  const button = document.getElementById('archive-button');
+  const panel = document.getElementById('archive');
+  const list = document.getElementById('archive-list');
+  if (!button || !panel || !list) return;
+
+  for (const entry of listArchive(getTodaySeed(), loadProgress())) {
+    const item = document.createElement('li');
+    const link = document.createElement('a');
+    link.href = entry.href;
+    link.textContent = `#${entry.puzzle} · ${entry.date}`;
+    item.appendChild(link);
+    if (entry.result) {
+      item.append(` ✓ ${formatTime(entry.result.bestTimeMs)}`);
+    }
+    list.appendChild(item);
+  }
+
+  button.addEventListener('click', () => {
+    panel.hidden = !panel.hidden;
+  });
+}
+
+/**
+ * Connect to a leaderboard server: show the board, resend runs queued while
+ * offline, and let the player pick the name shown on it
+ */
+function setupLeaderboard(url: string) {
+  const client = createLeaderboardClient({ baseUrl: url });
+  leaderboard = client;
+  client.flush();
+  window.addEventListener('online', () => client.flush());
+
+  const button = document.getElementById('leaderboard-button');
+  const panel = document.getElementById('leaderboard');
+  const name = document.getElementById('leaderboard-name') as HTMLInputElement | null;
+  if (!button || !panel || !name) return;
+
+  button.hidden = false;
+  button.addEventListener('click', () => {
+    panel.hidden = !panel.hidden;
+    if (!panel.hidden) showLeaderboard(client, seed);
+  });
+
+  name.value = loadPlayer().name;
+  name.addEventListener('change', () => savePlayerName(name.value));
+}
+
+/**
+ * Fill the leaderboard panel with a day's fastest runs
+ */
+async function showLeaderboard(client: LeaderboardClient, seed: number, status?: string) {
+  const list = document.getElementById('leaderboard-list');
+  const statusLine = document.getElementById('leaderboard-status');
+  if (!list || !statusLine) return;
+
+  try {
+    const board = await client.getBoard(seed);
+    list.replaceChildren(
+      ...board.entries.map((entry) => {
+        const item = document.createElement('li');
+        item.textContent = `${entry.rank}. ${entry.name} · ${formatTime(entry.timeMs)}`;
+        return item;
+      })
+    );
+    statusLine.textContent = status ?? `${board.total} ${board.total === 1 ? 'player' : 'players'} today`;
+  } catch (error) {
+    console.error('Could not load leaderboard', error);
+    statusLine.textContent = 'Leaderboard unavailable';
+  }
+}
+
+/**
+ * Post a finished daily run and open the board to show where it landed
+ */
+async function submitToLeaderboard(client: LeaderboardClient, replay: Replay) {
+  const player = loadPlayer();
+  const outcome = await client.submit({ playerId: player.id, name: player.name, replay: serializeReplay(replay) });
+  const panel = document.getElementById('leaderboard');
+  const statusLine = document.getElementById('leaderboard-status');
+  if (!panel || !statusLine) return;
+
+  panel.hidden = false;
+  switch (outcome.status) {
+    case 'ranked':
+      showLeaderboard(client, replay.seed, `You're #${outcome.rank.entry.rank} of ${outcome.rank.total}`);
+      break;
+    case 'queued':
+      statusLine.textContent = "Offline · your run will be sent when the leaderboard's back";
+      break;
+    case 'rejected':
+      statusLine.textContent = `Run not accepted: ${outcome.errors.join('; ')}`;
+      break;
+  }
+}
+
+/**
+ * Read a hand-made maze from a `?maze=...` link, falling back to a
+ * generated board if it doesn't load
+ */
+function loadMazeParam(encoded: string): { maze: Maze; meta: MazeMeta } | null {
+  try {
+    return decodeMaze(encoded);
+  } catch (error) {
+    console.error('Invalid maze', error);
+    return null;
+  }
+}
+
+/**
+ * Read a replay from a `#replay=...` link, if present
+ */
+function loadReplayFromHash(): Replay | null {
+  const match = window.location.hash.match(/^#replay=(.+)$/);
+  if (!match) return null;
+
+  try {
+    return deserializeReplay(match[1]);
+  } catch (error) {
+    console.error('Invalid replay', error);
+    return null;
+  }
+}
+
+/**
+ * Fetch the designer's par run for a seed, published as a serialized replay
+ * in `par/<seed>.txt`. Only used if it was recorded on this board and
+ * actually finishes.
+ */
+async function loadPar(seed: number, config: LevelConfig): Promise<Ghost | null> {
+  try {
+    const response = await fetch(`par/${seed}.txt`);
+    if (!response.ok) return null;
+
+    const replay = deserializeReplay((await response.text()).trim());
+    // Recorded in either orientation; it's redrawn to suit this screen
+    const expectedConfig = { ...config, TRANSPOSE: replay.config.TRANSPOSE };
+    const check = verifyRun(replay.seed, replay.config, replay.inputs, { expectedConfig });
+    if (replay.seed !== seed || !check.valid) {
+      console.warn('Ignoring par run', check.errors);
+      return null;
+    }
+    return ghostFromReplay(replay);
+  } catch {
+    // No par published for this seed (dev servers answer with the page itself)
+    return null;
+  }
+}
+
+/**
+ * Save the result for stats (and the ghost, if it's a new best) and offer
+ * the run so it can be shared or attached to a bug report
+ */
+function onRunFinished(replay: Replay, resets: number, ghost: Ghost | null) {
+  const timeMs = Math.round(replay.ticks * TICK_DT * 1000);
+  let progress = loadProgress();
+  if (ghost) progress = recordGhost(progress, replay.seed, ghost);
+
+  if (countsTowardStats(mode)) {
+    // The board's own day, even if the run finished after the next maze came out
+    progress = recordResult(progress, { seed: replay.seed, day: replay.seed, timeMs, resets });
+    summary = { timeMs, resets, stats: computeStats(progress, getTodaySeed()) };
+  } else {
+    summary = { timeMs, resets, stats: null };
+  }
+  if (ghost || countsTowardStats(mode)) saveProgress(progress);
+
+  if (leaderboard && mode === 'daily') submitToLeaderboard(leaderboard, replay);
+
+  // Practice boards have no puzzle number to share; the replay link covers them
+  if (mode !== 'practice') {
+    setupShareButton({ seed: replay.seed, timeMs, resets, maze, trail: trails.flat() });
+  }
+
+  setupReplayButton(`${window.location.origin}${window.location.pathname}#replay=${serializeReplay(replay)}`);
+}
+
+/**
+ * Reveal the button that copies a link to watch the run back
+ */
+function setupReplayButton(link: string) {
+  const button = document.getElementById('replay-button') as HTMLButtonElement | null;
+  if (!button) return;
+
+  button.hidden = false;
+  button.textContent = 'Copy replay link';
+  button.onclick = async () => {
+    if ((await copyResult(link, null)) === 'copied') {
+      button.textContent = 'Link copied!';
+    } else {
+      // No clipboard access (insecure origin, or permission denied): let the player copy it by hand
+      window.prompt("Couldn't copy automatically. Copy this replay link:", link);
+    }
+  };
+}
+
+/**
+ * Reveal the share button with a text card and a snapshot of the board
+ */
+function setupShareButton(result: ShareResult) {
+  const button = document.getElementById('share-button') as HTMLButtonElement | null;
+  if (!button) return;
+
+  const text = buildShareText(result, SIM_CELL_SIZE);
+  const scale = cellSize / SIM_CELL_SIZE;
+  const displayTrails = trails.map((trail) =>
+    trail.map((point) => point && { x: point.x * scale, y: point.y * scale })
+  );
+  const balls = sim.balls.map(({ ball }) => toDisplayBall(ball, cellSize));
+  const snapshot = renderSnapshot(maze, balls, displayTrails, CONFIG, cellSize);
+  const image = new Promise<Blob | null>((resolve) => snapshot.toBlob(resolve, 'image/png'));
+
+  // Replaces the handler from any earlier win after a restart
+  button.hidden = false;
+  button.textContent = 'Share result';
+  button.onclick = async () => {
+    const outcome = await shareResult(text, await image);
+    if (outcome === 'copied') {
+      button.textContent = 'Copied!';
+    }
+  };
 }
 
 // Start game when page loads
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { generateMaze } from './maze';
+import { createBlankMaze, placeHole, setStart, toggleWall } from './editor';
+import {
+  MAZE_FORMAT_VERSION,
+  MazeFile,
+  decodeMaze,
+  encodeMaze,
+  fromMazeFile,
+  parseMaze,
+  stringifyMaze,
+  toMazeFile,
+  validateMazeFile,
+} from './maze-file';
+
+// 2x2 board with a wall between the top two cells
+const validFile = (): MazeFile => ({
+  version: MAZE_FORMAT_VERSION,
+  meta: { name: 'Tiny' },
+  width: 2,
+  height: 2,
+  walls: [
+    [11, 11],
+    [12, 6],
+  ],
+  holes: [],
+  start: { x: 0, y: 0 },
+  goal: { x: 1, y: 0 },
+});
+
+describe('Maze file - Round trip', () => {
+  it('should describe walls as one mask per cell', () => {
+    const file = toMazeFile(createBlankMaze(2, 2));
+
+    expect(file.walls).toEqual([
+      [9, 3],
+      [12, 6],
+    ]);
+    expect(file.start).toEqual({ x: 0, y: 0 });
+  });
+
+  it('should rebuild a generated maze exactly', () => {
+    const maze = generateMaze(20000, 6, 9, 8, { tiles: { ice: 2, gate: 1 } });
+    const { maze: loaded, meta } = parseMaze(stringifyMaze(maze, { name: 'Daily', seed: 20000 }));
+
+    expect(loaded).toEqual(maze);
+    expect(meta).toEqual({ name: 'Daily', seed: 20000 });
+  });
+
+  it('should pack into a URL-safe string and back', () => {
+    const maze = createBlankMaze(5, 4);
+    toggleWall(maze, { x: 1, y: 1, side: 'south' });
+    placeHole(maze, { x: 2.4, y: 0.57 });
+    setStart(maze, { x: 0, y: 3 });
+
+    const encoded = encodeMaze(maze, { author: 'Sam' });
+    const { maze: loaded, meta } = decodeMaze(encoded);
+
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(loaded.cells).toEqual(maze.cells);
+    expect(loaded.start).toEqual({ x: 0, y: 3 });
+    expect(loaded.holes[0].offsetX).toBeCloseTo(-0.1);
+    expect(loaded.holes[0].offsetY).toBeCloseTo(0.07);
+    expect(meta).toEqual({ author: 'Sam' });
+  });
+
+  it('should throw on garbage strings', () => {
+    expect(() => decodeMaze('not-a-maze')).toThrow();
+  });
+
+  it('should refuse a string with an impossible size before building it', () => {
+    const packed = btoa(JSON.stringify({ v: MAZE_FORMAT_VERSION, m: {}, w: 2, h: 1e9, c: '', o: [] }));
+    expect(() => decodeMaze(packed)).toThrow('Malformed maze string');
+  });
+});
+
+describe('Maze file - Validation', () => {
+  it('should accept a good file', () => {
+    expect(validateMazeFile(validFile())).toEqual([]);
+    expect(fromMazeFile(validFile()).cells[0][0].walls.east).toBe(true);
+  });
+
+  it('should reject other versions', () => {
+    expect(validateMazeFile({ ...validFile(), version: 99 })).toEqual(['Unsupported maze version: 99']);
+  });
+
+  it('should report walls the two neighbours disagree on', () => {
+    const file = validFile();
+    file.walls[0][1] = 3; // West wall missing on the right of the pair
+
+    expect(validateMazeFile(file)).toEqual(['Cells 0,0 and 1,0 disagree about the wall between them']);
+  });
+
+  it('should report gaps in the outer boundary', () => {
+    const file = validFile();
+    file.walls[1][0] = 4;
+
+    expect(validateMazeFile(file)).toContain('Cell 0,1 is missing its west boundary wall');
+  });
+
+  it('should report holes, start and goal off the board', () => {
+    const file = {
+      ...validFile(),
+      holes: [{ x: 1, y: 1, offsetX: 0.9 }, { x: 2, y: 0 }],
+      start: { x: -1, y: 0 },
+      goal: { x: 0, y: 5 },
+    };
+
+    expect(validateMazeFile(file)).toEqual([
+      'Hole 0 is out of range',
+      'Hole 1 is out of range',
+      'Start is out of range',
+      'Goal is out of range',
+    ]);
+  });
+
+  it('should report a goal that cannot be reached', () => {
+    const file = validFile();
+    file.walls = [
+      [11, 11],
+      [14, 14],
+    ];
+    file.goal = { x: 1, y: 1 };
+
+    expect(validateMazeFile(file)).toEqual(["The goal can't be reached from the start"]);
+  });
+
+  it('should hold files to the same rules as the editor', () => {
+    const sameCell = { ...validFile(), goal: { x: 0, y: 0 } };
+    const holeOnCheckpoint = { ...validFile(), holes: [{ x: 1, y: 1 }], checkpoints: [{ x: 1, y: 1 }] };
+
+    expect(validateMazeFile(sameCell)).toEqual(['The start and goal are in the same cell']);
+    expect(validateMazeFile(holeOnCheckpoint)).toEqual(['There is a hole on checkpoint 0']);
+  });
+
+  it('should report tiles missing the settings their type needs', () => {
+    const file = {
+      ...validFile(),
+      tiles: [
+        { x: 0, y: 0, tile: { type: 'slope' } },
+        { x: 1, y: 0, tile: { type: 'gate', side: 'up' } },
+        { x: 0, y: 1, tile: { type: 'door', side: 'east', period: 0, phase: 0 } },
+        { x: 1, y: 1, tile: { type: 'ice' } },
+      ],
+    };
+
+    expect(validateMazeFile(file)).toEqual([
+      'The slope tile at 0,0 has missing or invalid settings',
+      'The gate tile at 1,0 has missing or invalid settings',
+      'The door tile at 0,1 has missing or invalid settings',
+    ]);
+  });
+
+  it('should list every problem when parsing', () => {
+    const json = JSON.stringify({ ...validFile(), holes: [{ x: 0, y: 0 }] });
+
+    expect(() => parseMaze(json)).toThrow('Invalid maze: There is a hole in the start cell');
+  });
+});
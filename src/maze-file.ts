@@ -0,0 +1,362 @@
+import { Cell, Checkpoint, Direction, Hole, Maze, Tile } from './maze';
+import { DIRECTIONS, solveMaze } from './analysis';
+import { OPPOSITE, TILE_TYPES } from './tiles';
+
+/** Bump when the file layout changes so old files are recognised */
+export const MAZE_FORMAT_VERSION = 1;
+
+/** Largest board a file can describe */
+export const MAX_FILE_SIZE = 50;
+
+/** Furthest a hole can sit from its cell centre (cell units) */
+const MAX_OFFSET = 0.5;
+
+/** Hole offsets in the compact string are stored in hundredths of a cell */
+const OFFSET_STEPS = 100;
+
+/** Bit for each wall in a cell's wall mask */
+export const WALL_BITS: Record<Direction, number> = {
+  north: 1,
+  east: 2,
+  south: 4,
+  west: 8,
+};
+
+/**
+ * Optional details about where a maze came from
+ */
+export interface MazeMeta {
+  name?: string; // Shown while the maze is played
+  author?: string;
+  created?: string; // YYYY-MM-DD
+  seed?: number; // Seed it was generated from, if it started as a generated board
+}
+
+/**
+ * A maze as stored in a `.json` file.
+ *
+ * Walls are one mask per cell (sum of WALL_BITS), rows top to bottom, and
+ * must agree between neighbours: a cell with its east bit set needs the
+ * west bit set on the cell to its right. The outer boundary is always
+ * walled. Holes, the goal and the start use cell coordinates; hole offsets
+ * are from the cell centre in cell units.
+ *
+ *   {
+ *     "version": 1,
+ *     "meta": { "name": "Heart" },
+ *     "width": 2, "height": 2,
+ *     "walls": [[9, 3], [12, 6]],
+ *     "holes": [{ "x": 1, "y": 0, "offsetX": 0.1, "offsetY": 0 }],
+ *     "start": { "x": 0, "y": 0 },
+ *     "goal": { "x": 1, "y": 1 }
+ *   }
+ */
+export interface MazeFile {
+  version: number;
+  meta: MazeMeta;
+  width: number;
+  height: number;
+  walls: number[][];
+  holes: Hole[];
+  start: Checkpoint;
+  goal: Hole;
+  checkpoints?: Checkpoint[]; // In order along the solution path
+  tiles?: { x: number; y: number; tile: Tile }[];
+  generatorVersion?: number; // Generator that built it, for generated boards (see seed.ts)
+}
+
+/**
+ * Describe a maze in the file layout
+ */
+export function toMazeFile(maze: Maze, meta: MazeMeta = {}): MazeFile {
+  const tiles = maze.cells.flat().flatMap(({ x, y, tile }) => (tile ? [{ x, y, tile }] : []));
+
+  return {
+    version: MAZE_FORMAT_VERSION,
+    meta,
+    width: maze.width,
+    height: maze.height,
+    walls: maze.cells.map((row) => row.map(wallMask)),
+    holes: maze.holes,
+    start: maze.start,
+    goal: maze.goal,
+    ...(maze.checkpoints && { checkpoints: maze.checkpoints }),
+    ...(tiles.length > 0 && { tiles }),
+    ...(maze.generatorVersion !== undefined && { generatorVersion: maze.generatorVersion }),
+  };
+}
+
+/**
+ * Rebuild a maze from a file that has passed validateMazeFile
+ */
+export function fromMazeFile(file: MazeFile): Maze {
+  const cells: Cell[][] = file.walls.map((row, y) =>
+    row.map((mask, x) => ({
+      x,
+      y,
+      walls: {
+        north: hasWall(mask, 'north'),
+        east: hasWall(mask, 'east'),
+        south: hasWall(mask, 'south'),
+        west: hasWall(mask, 'west'),
+      },
+    }))
+  );
+  for (const { x, y, tile } of file.tiles ?? []) {
+    cells[y][x].tile = tile;
+  }
+
+  return {
+    width: file.width,
+    height: file.height,
+    cells,
+    holes: file.holes.map((hole) => ({ ...hole })),
+    goal: { ...file.goal },
+    start: { ...file.start },
+    ...(file.checkpoints && { checkpoints: file.checkpoints.map(({ x, y }) => ({ x, y })) }),
+    ...(file.generatorVersion !== undefined && { generatorVersion: file.generatorVersion }),
+  };
+}
+
+/**
+ * Check untrusted data against the file format. Returns every problem found
+ * (empty when the file is good) so a hand-edited file can be fixed in one go.
+ */
+export function validateMazeFile(data: unknown): string[] {
+  if (typeof data !== 'object' || data === null) return ['Not a maze file'];
+  const file = data as Partial<MazeFile>;
+
+  if (file.version !== MAZE_FORMAT_VERSION) {
+    return [`Unsupported maze version: ${file.version}`];
+  }
+
+  const { width, height } = file;
+  if (!isInteger(width, 2, MAX_FILE_SIZE) || !isInteger(height, 2, MAX_FILE_SIZE)) {
+    return [`Width and height must be whole numbers from 2 to ${MAX_FILE_SIZE}`];
+  }
+
+  const issues: string[] = [];
+  if (typeof file.meta !== 'object' || file.meta === null) issues.push('Missing meta');
+
+  const walls = file.walls;
+  const rowsOk =
+    Array.isArray(walls) &&
+    walls.length === height &&
+    walls.every((row) => Array.isArray(row) && row.length === width && row.every((m) => isInteger(m, 0, 15)));
+  if (!rowsOk) return [...issues, `Walls must be ${height} rows of ${width} masks from 0 to 15`];
+
+  const inside = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (const side of Object.keys(WALL_BITS) as Direction[]) {
+        const { dx, dy } = DIRECTIONS[side];
+        const closed = hasWall(walls[y][x], side);
+
+        if (!inside(x + dx, y + dy)) {
+          if (!closed) issues.push(`Cell ${x},${y} is missing its ${side} boundary wall`);
+        } else if (closed !== hasWall(walls[y + dy][x + dx], OPPOSITE[side]) && (side === 'east' || side === 'south')) {
+          // Reported once, from the cell above or to the left
+          issues.push(`Cells ${x},${y} and ${x + dx},${y + dy} disagree about the wall between them`);
+        }
+      }
+    }
+  }
+
+  const isCell = (cell: unknown): cell is Checkpoint =>
+    typeof cell === 'object' &&
+    cell !== null &&
+    isInteger((cell as Checkpoint).x, 0, width - 1) &&
+    isInteger((cell as Checkpoint).y, 0, height - 1);
+  const isOffset = (offset: unknown) =>
+    offset === undefined || (typeof offset === 'number' && Math.abs(offset) <= MAX_OFFSET);
+
+  const holes = Array.isArray(file.holes) ? file.holes : [];
+  if (!Array.isArray(file.holes)) issues.push('Missing holes');
+  holes.forEach((hole, i) => {
+    if (!isCell(hole) || !isOffset(hole.offsetX) || !isOffset(hole.offsetY)) {
+      issues.push(`Hole ${i} is out of range`);
+    }
+  });
+  if (!isCell(file.start)) issues.push('Start is out of range');
+  if (!isCell(file.goal) || !isOffset(file.goal.offsetX) || !isOffset(file.goal.offsetY)) {
+    issues.push('Goal is out of range');
+  }
+
+  if (file.checkpoints !== undefined && !(Array.isArray(file.checkpoints) && file.checkpoints.every(isCell))) {
+    issues.push('Checkpoints are out of range');
+  }
+  if (file.tiles !== undefined) {
+    const tiles = Array.isArray(file.tiles) ? file.tiles : [];
+    const placed = tiles.every((entry) => isCell(entry) && TILE_TYPES.includes(entry.tile?.type));
+
+    if (!Array.isArray(file.tiles) || !placed) {
+      issues.push(`Tiles must be on the board and one of ${TILE_TYPES.join(', ')}`);
+    } else {
+      tiles.forEach(({ x, y, tile }) => {
+        if (!isTileValid(tile)) issues.push(`The ${tile.type} tile at ${x},${y} has missing or invalid settings`);
+      });
+    }
+  }
+  if (file.generatorVersion !== undefined && !isInteger(file.generatorVersion, 1, Infinity)) {
+    issues.push('Generator version must be a whole number from 1');
+  }
+
+  // Only worth solving once the layout itself makes sense
+  if (issues.length === 0) {
+    issues.push(...findLayoutProblems(fromMazeFile(file as MazeFile)));
+  }
+
+  return issues;
+}
+
+/**
+ * Why a maze couldn't be finished as laid out: an unreachable goal, or a
+ * hole where the ball starts, ends or respawns. The editor checks its
+ * levels with the same rules a loaded file has to pass.
+ */
+export function findLayoutProblems(maze: Maze): string[] {
+  const { start, goal } = maze;
+  const onHole = (cell: Checkpoint) => maze.holes.some((h) => h.x === cell.x && h.y === cell.y);
+  const problems: string[] = [];
+
+  if (start.x === goal.x && start.y === goal.y) {
+    problems.push('The start and goal are in the same cell');
+  } else if (solveMaze(maze, start, goal).length === 0) {
+    problems.push("The goal can't be reached from the start");
+  }
+  if (onHole(start)) problems.push('There is a hole in the start cell');
+  if (onHole(goal)) problems.push('There is a hole in the goal cell');
+  maze.checkpoints?.forEach((checkpoint, i) => {
+    if (onHole(checkpoint)) problems.push(`There is a hole on checkpoint ${i}`);
+  });
+
+  return problems;
+}
+
+/**
+ * Pretty-printed file contents for a maze
+ */
+export function stringifyMaze(maze: Maze, meta: MazeMeta = {}): string {
+  return JSON.stringify(toMazeFile(maze, meta), null, 2);
+}
+
+/**
+ * Read a maze file, throwing with every problem listed if it is invalid
+ */
+export function parseMaze(json: string): { maze: Maze; meta: MazeMeta } {
+  return loadFile(JSON.parse(json));
+}
+
+/**
+ * Serialize to a compact URL-safe string: walls as one hex digit per cell,
+ * holes as [x, y, offsetX, offsetY, ...] with offsets in hundredths
+ */
+export function encodeMaze(maze: Maze, meta: MazeMeta = {}): string {
+  const file = toMazeFile(maze, meta);
+  const json = JSON.stringify({
+    v: file.version,
+    m: file.meta,
+    w: file.width,
+    h: file.height,
+    c: file.walls.flat().map((mask) => mask.toString(16)).join(''),
+    o: file.holes.flatMap((hole) => [hole.x, hole.y, packOffset(hole.offsetX), packOffset(hole.offsetY)]),
+    s: [file.start.x, file.start.y],
+    g: [file.goal.x, file.goal.y],
+    ...(file.checkpoints && { k: file.checkpoints.flatMap(({ x, y }) => [x, y]) }),
+    ...(file.tiles && { t: file.tiles }),
+    ...(file.generatorVersion !== undefined && { r: file.generatorVersion }),
+  });
+
+  return btoa(json).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Parse a string from encodeMaze, throwing if it is malformed or invalid
+ */
+export function decodeMaze(encoded: string): { maze: Maze; meta: MazeMeta } {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const data = JSON.parse(atob(base64));
+
+  if (
+    typeof data?.c !== 'string' ||
+    !Array.isArray(data.o) ||
+    data.o.length % 4 !== 0 ||
+    !isInteger(data.w, 2, MAX_FILE_SIZE) ||
+    !isInteger(data.h, 2, MAX_FILE_SIZE)
+  ) {
+    throw new Error('Malformed maze string');
+  }
+
+  const masks = [...data.c].map((digit) => parseInt(digit, 16));
+  const holes: Hole[] = [];
+  for (let i = 0; i < data.o.length; i += 4) {
+    const [x, y, offsetX, offsetY] = data.o.slice(i, i + 4);
+    holes.push({ x, y, offsetX: offsetX / OFFSET_STEPS, offsetY: offsetY / OFFSET_STEPS });
+  }
+  const pairs = (flat: number[]) =>
+    Array.from({ length: flat.length / 2 }, (_, i) => ({ x: flat[i * 2], y: flat[i * 2 + 1] }));
+
+  return loadFile({
+    version: data.v,
+    meta: data.m,
+    width: data.w,
+    height: data.h,
+    walls: Array.from({ length: data.h }, (_, y) => masks.slice(y * data.w, (y + 1) * data.w)),
+    holes,
+    start: pairs(data.s ?? [])[0],
+    goal: pairs(data.g ?? [])[0],
+    ...(data.k && { checkpoints: pairs(data.k) }),
+    ...(data.t && { tiles: data.t }),
+    ...(data.r !== undefined && { generatorVersion: data.r }),
+  });
+}
+
+function loadFile(data: unknown): { maze: Maze; meta: MazeMeta } {
+  const issues = validateMazeFile(data);
+  if (issues.length > 0) {
+    throw new Error(`Invalid maze: ${issues.join('; ')}`);
+  }
+
+  const file = data as MazeFile;
+  return { maze: fromMazeFile(file), meta: file.meta };
+}
+
+function wallMask(cell: Cell): number {
+  const sides = Object.keys(WALL_BITS) as Direction[];
+  return sides.reduce((mask, side) => (cell.walls[side] ? mask | WALL_BITS[side] : mask), 0);
+}
+
+function hasWall(mask: number, side: Direction): boolean {
+  return (mask & WALL_BITS[side]) !== 0;
+}
+
+function packOffset(offset = 0): number {
+  return Math.round(offset * OFFSET_STEPS);
+}
+
+// Directions, door timings and so on, once the type itself is known to be good
+function isTileValid(tile: Tile): boolean {
+  const isDirection = (value: unknown) => Object.keys(DIRECTIONS).includes(value as string);
+
+  switch (tile.type) {
+    case 'slope':
+      return isDirection(tile.direction);
+    case 'gate':
+      return isDirection(tile.side);
+    case 'door':
+      return (
+        isDirection(tile.side) &&
+        typeof tile.period === 'number' &&
+        Number.isFinite(tile.period) &&
+        tile.period > 0 &&
+        typeof tile.phase === 'number' &&
+        Number.isFinite(tile.phase)
+      );
+    default:
+      return true;
+  }
+}
+
+function isInteger(value: unknown, min: number, max: number): value is number {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { generateMaze, transposeMaze } from './maze';
+import { solveMaze } from './analysis';
+
+describe('Maze - Rectangular grids', () => {
+  it('should generate independent width and height', () => {
+    const maze = generateMaze(20000, 6, 9, 10);
+
+    expect(maze.width).toBe(6);
+    expect(maze.height).toBe(9);
+    expect(maze.cells).toHaveLength(9);
+    expect(maze.cells[0]).toHaveLength(6);
+    expect(maze.goal).toEqual({ x: 5, y: 8 });
+  });
+
+  it('should keep holes inside the grid', () => {
+    const maze = generateMaze(20000, 12, 4, 10);
+
+    for (const hole of maze.holes) {
+      expect(hole.x).toBeLessThan(12);
+      expect(hole.y).toBeLessThan(4);
+    }
+  });
+
+  it('should reach every cell of a wide maze', () => {
+    const maze = generateMaze(20000, 12, 4, 0);
+    expect(solveMaze(maze, { x: 0, y: 0 }, maze.goal).length).toBeGreaterThan(0);
+  });
+
+  it('should place as many holes as fit on a crowded board', () => {
+    const maze = generateMaze(20000, 4, 4, 14);
+
+    expect(maze.holes.length).toBeGreaterThan(0);
+    expect(maze.holes.length).toBeLessThan(14);
+  });
+});
+
+describe('Maze - Transpose', () => {
+  const maze = generateMaze(20000, 6, 9, 10);
+  const wide = transposeMaze(maze);
+
+  it('should swap width and height', () => {
+    expect(wide.width).toBe(9);
+    expect(wide.height).toBe(6);
+    expect(wide.goal).toEqual({ x: 8, y: 5 });
+  });
+
+  it('should mirror walls and holes along the diagonal', () => {
+    expect(wide.cells[2][4].walls).toEqual({
+      north: maze.cells[4][2].walls.west,
+      east: maze.cells[4][2].walls.south,
+      south: maze.cells[4][2].walls.east,
+      west: maze.cells[4][2].walls.north,
+    });
+    expect(wide.holes[0]).toEqual({
+      x: maze.holes[0].y,
+      y: maze.holes[0].x,
+      offsetX: maze.holes[0].offsetY,
+      offsetY: maze.holes[0].offsetX,
+    });
+  });
+
+  it('should keep the solution the same length', () => {
+    const tall = solveMaze(maze, { x: 0, y: 0 }, maze.goal);
+    const mirrored = solveMaze(wide, { x: 0, y: 0 }, wide.goal);
+
+    expect(mirrored).toHaveLength(tall.length);
+  });
+
+  it('should mirror checkpoints', () => {
+    const maze = { ...generateMaze(20000, 6, 9, 0), checkpoints: [{ x: 1, y: 4 }] };
+    expect(transposeMaze(maze).checkpoints).toEqual([{ x: 4, y: 1 }]);
+  });
+
+  it('should mirror a hand-placed start', () => {
+    const maze = { ...generateMaze(20000, 6, 9, 0), start: { x: 2, y: 7 } };
+    expect(transposeMaze(maze).start).toEqual({ x: 7, y: 2 });
+  });
+
+  it('should round trip back to the original', () => {
+    expect(transposeMaze(wide)).toEqual(maze);
+  });
+});
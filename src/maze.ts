@@ -1,14 +1,31 @@
-import { seedRNG } from './utils';
+import { GeneratorAlgorithm, GENERATORS, braid, createGrid } from './generators';
+import { TileCounts, placeTiles } from './tiles';
+import { createStreams, generatorVersionFor } from './seed';
+import { PlacementStrategy, placeStartAndGoal } from './placement';
+
+/** Random placements tried per hole before giving up on a crowded board */
+const MAX_ATTEMPTS_PER_HOLE = 1000;
+
+export type Direction = 'north' | 'east' | 'south' | 'west';
+
+/**
+ * Special floor or fixture in a cell
+ */
+export type Tile =
+  | { type: 'ice' } // Low friction
+  | { type: 'mud' } // High friction
+  | { type: 'slope'; direction: Direction } // Constant push downhill
+  | { type: 'bumper' } // Spring post in the middle of the cell
+  | { type: 'gate'; side: Direction } // One-way: the ball can leave through this side but not come back
+  | { type: 'door'; side: Direction; period: number; phase: number }; // Wall that opens and closes (seconds)
+
+export type TileType = Tile['type'];
 
 export interface Cell {
   x: number;
   y: number;
-  walls: {
-    north: boolean;
-    east: boolean;
-    south: boolean;
-    west: boolean;
-  };
+  walls: Record<Direction, boolean>;
+  tile?: Tile;
 }
 
 export interface Hole {
@@ -18,95 +35,60 @@ export interface Hole {
   offsetY?: number; // Random offset from center (-0.3 to 0.3)
 }
 
+export interface Checkpoint {
+  x: number; // Cell x coordinate
+  y: number; // Cell y coordinate
+}
+
 export interface Maze {
-  size: number;
+  width: number;
+  height: number;
   cells: Cell[][];
   holes: Hole[];
   goal: Hole;
+  start: Checkpoint; // Cell the ball starts (and respawns without checkpoints) in
+  checkpoints?: Checkpoint[]; // In order along the solution path
+  generatorVersion?: number; // Generator that built it (see seed.ts), absent for hand-made mazes
+}
+
+export interface GenerateOptions {
+  version?: number; // Generator version (see seed.ts), by default the one live on the seed's day
+  algorithm?: GeneratorAlgorithm; // Defaults to the recursive backtracker
+  braid?: number; // Chance (0-1) of opening each dead end into a loop
+  tiles?: TileCounts; // How many of each special tile to scatter
+  placement?: PlacementStrategy; // Where the start and goal go (corners by default)
+  minGoalDistance?: number; // Shortest route from start to goal for random placement (cells)
 }
 
 /**
- * Generate maze using recursive backtracker algorithm
+ * Generate maze with the chosen algorithm (recursive backtracker by default)
  */
-export function generateMaze(seed: number, size: number, holeCount: number): Maze {
-  const rng = seedRNG(seed);
-
-  // Initialize grid with all walls
-  const cells: Cell[][] = [];
-  for (let y = 0; y < size; y++) {
-    cells[y] = [];
-    for (let x = 0; x < size; x++) {
-      cells[y][x] = {
-        x,
-        y,
-        walls: { north: true, east: true, south: true, west: true },
-      };
-    }
+export function generateMaze(
+  seed: number,
+  width: number,
+  height: number,
+  holeCount: number,
+  options: GenerateOptions = {}
+): Maze {
+  const version = options.version ?? generatorVersionFor(seed);
+  const streams = createStreams(seed, version);
+
+  // Initialize grid with all walls and carve passages
+  const cells = createGrid(width, height);
+  GENERATORS[options.algorithm ?? 'backtracker'](cells, streams.walls);
+
+  if (options.braid) {
+    braid(cells, streams.walls, options.braid);
   }
 
-  // Recursive backtracker
-  const stack: Cell[] = [];
-  const visited = new Set<string>();
-
+  const { start, goal } = placeStartAndGoal(cells, streams.placement, options.placement, options.minGoalDistance);
   const key = (x: number, y: number) => `${x},${y}`;
 
-  const getNeighbors = (cell: Cell): Cell[] => {
-    const neighbors: Cell[] = [];
-    const { x, y } = cell;
-
-    if (y > 0) neighbors.push(cells[y - 1][x]); // North
-    if (x < size - 1) neighbors.push(cells[y][x + 1]); // East
-    if (y < size - 1) neighbors.push(cells[y + 1][x]); // South
-    if (x > 0) neighbors.push(cells[y][x - 1]); // West
-
-    return neighbors;
-  };
-
-  const removeWall = (current: Cell, next: Cell) => {
-    const dx = next.x - current.x;
-    const dy = next.y - current.y;
-
-    if (dx === 1) {
-      current.walls.east = false;
-      next.walls.west = false;
-    } else if (dx === -1) {
-      current.walls.west = false;
-      next.walls.east = false;
-    } else if (dy === 1) {
-      current.walls.south = false;
-      next.walls.north = false;
-    } else if (dy === -1) {
-      current.walls.north = false;
-      next.walls.south = false;
-    }
-  };
-
-  // Start at top-left
-  const start = cells[0][0];
-  stack.push(start);
-  visited.add(key(start.x, start.y));
-
-  while (stack.length > 0) {
-    const current = stack[stack.length - 1];
-    const neighbors = getNeighbors(current).filter(
-      (n) => !visited.has(key(n.x, n.y))
-    );
-
-    if (neighbors.length > 0) {
-      const next = neighbors[rng.nextInt(neighbors.length)];
-      removeWall(current, next);
-      visited.add(key(next.x, next.y));
-      stack.push(next);
-    } else {
-      stack.pop();
-    }
-  }
-
   // Generate holes (avoid start and goal cells)
   const holes: Hole[] = [];
   const usedPositions = new Set<string>();
-  usedPositions.add(key(0, 0)); // Start
-  usedPositions.add(key(size - 1, size - 1)); // Goal
+  usedPositions.add(key(start.x, start.y));
+  usedPositions.add(key(goal.x, goal.y));
 
   const isAdjacentWithoutWall = (x1: number, y1: number, x2: number, y2: number): boolean => {
     // Check if cells are adjacent (horizontally or vertically)
@@ -135,9 +117,13 @@ export function generateMaze(seed: number, size: number, holeCount: number): Maz
     return false;
   };
 
-  while (holes.length < holeCount) {
-    const x = rng.nextInt(size);
-    const y = rng.nextInt(size);
+  // Crowded boards can run out of legal spots; place what fits
+  let attempts = 0;
+  const maxAttempts = holeCount * MAX_ATTEMPTS_PER_HOLE;
+
+  while (holes.length < holeCount && attempts++ < maxAttempts) {
+    const x = streams.holes.nextInt(width);
+    const y = streams.holes.nextInt(height);
     const pos = key(x, y);
 
     if (usedPositions.has(pos)) continue;
@@ -153,16 +139,80 @@ export function generateMaze(seed: number, size: number, holeCount: number): Maz
 
     if (!hasAdjacentHole) {
       // Random offset from center (max 0.3 in each direction to avoid walls)
-      const offsetX = rng.nextFloat(-0.3, 0.3);
-      const offsetY = rng.nextFloat(-0.3, 0.3);
+      const offsetX = streams.holes.nextFloat(-0.3, 0.3);
+      const offsetY = streams.holes.nextFloat(-0.3, 0.3);
 
       holes.push({ x, y, offsetX, offsetY });
       usedPositions.add(pos);
     }
   }
 
-  // Goal hole at bottom-right (centered, no offset)
-  const goal: Hole = { x: size - 1, y: size - 1 };
+  // Goal hole is centered, no offset
+  const maze: Maze = { width, height, cells, holes, goal, start, generatorVersion: version };
+
+  if (options.tiles) {
+    // Own random stream so adding tiles doesn't move the walls or holes
+    placeTiles(maze, streams.tiles, options.tiles);
+  }
+
+  return maze;
+}
+
+/**
+ * Mirror a maze along its diagonal, turning a tall board into a wide one.
+ * Start and goal are mirrored with everything else, so the puzzle plays
+ * the same in either orientation.
+ */
+export function transposeMaze(maze: Maze): Maze {
+  const cells: Cell[][] = [];
+  for (let y = 0; y < maze.width; y++) {
+    cells[y] = [];
+    for (let x = 0; x < maze.height; x++) {
+      const { walls, tile } = maze.cells[x][y];
+      cells[y][x] = {
+        x,
+        y,
+        walls: { north: walls.west, east: walls.south, south: walls.east, west: walls.north },
+        ...(tile && { tile: transposeTile(tile) }),
+      };
+    }
+  }
+
+  const flip = (hole: Hole): Hole => ({
+    ...hole,
+    x: hole.y,
+    y: hole.x,
+    ...(hole.offsetX !== undefined && { offsetY: hole.offsetX }),
+    ...(hole.offsetY !== undefined && { offsetX: hole.offsetY }),
+  });
+
+  return {
+    width: maze.height,
+    height: maze.width,
+    cells,
+    holes: maze.holes.map(flip),
+    goal: flip(maze.goal),
+    start: { x: maze.start.y, y: maze.start.x },
+    ...(maze.checkpoints && { checkpoints: maze.checkpoints.map(({ x, y }) => ({ x: y, y: x })) }),
+    ...(maze.generatorVersion !== undefined && { generatorVersion: maze.generatorVersion }),
+  };
+}
 
-  return { size, cells, holes, goal };
+const TRANSPOSED: Record<Direction, Direction> = {
+  north: 'west',
+  east: 'south',
+  south: 'east',
+  west: 'north',
+};
+
+function transposeTile(tile: Tile): Tile {
+  switch (tile.type) {
+    case 'slope':
+      return { ...tile, direction: TRANSPOSED[tile.direction] };
+    case 'gate':
+    case 'door':
+      return { ...tile, side: TRANSPOSED[tile.side] };
+    default:
+      return tile;
+  }
 }
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { gravityToAngles, orientationToTilt, OrientationSettings } from './orientation';
+
+const linear: OrientationSettings = { maxAngle: 20, deadZone: 0, exponent: 1 };
+const level = { beta: 0, gamma: 0 };
+
+describe('Orientation - Tilt mapping', () => {
+  it('should map left-right and front-back tilt to x and y', () => {
+    const tilt = orientationToTilt({ beta: 5, gamma: -10 }, level, 0, linear);
+
+    expect(tilt.tiltX).toBeCloseTo(-0.5);
+    expect(tilt.tiltY).toBeCloseTo(0.25);
+  });
+
+  it('should measure tilt from the calibrated neutral pose', () => {
+    // Phone held at 40 degrees, tipped forward by another 10
+    const tilt = orientationToTilt({ beta: 50, gamma: 0 }, { beta: 40, gamma: 0 }, 0, linear);
+
+    expect(tilt.tiltX).toBeCloseTo(0);
+    expect(tilt.tiltY).toBeCloseTo(0.5);
+  });
+
+  it('should wrap front-back tilt around 180 degrees', () => {
+    const tilt = orientationToTilt({ beta: -175, gamma: 0 }, { beta: 175, gamma: 0 }, 0, linear);
+    expect(tilt.tiltY).toBeCloseTo(0.5);
+  });
+
+  it('should rotate axes to match a landscape screen', () => {
+    const angles = { beta: 10, gamma: 0 };
+
+    expect(orientationToTilt(angles, level, 90, linear).tiltX).toBeCloseTo(0.5);
+    expect(orientationToTilt(angles, level, 270, linear).tiltX).toBeCloseTo(-0.5);
+    expect(orientationToTilt(angles, level, -90, linear).tiltX).toBeCloseTo(-0.5);
+    expect(orientationToTilt(angles, level, 180, linear).tiltY).toBeCloseTo(-0.5);
+  });
+
+  it('should clamp steep tilts to full input', () => {
+    const tilt = orientationToTilt({ beta: 0, gamma: 80 }, level, 0, linear);
+    expect(tilt.tiltX).toBeCloseTo(1);
+  });
+});
+
+describe('Orientation - Motion fallback', () => {
+  it('should read a flat device as level', () => {
+    const angles = gravityToAngles(0, 0, 9.81);
+
+    expect(angles.beta).toBeCloseTo(0);
+    expect(angles.gamma).toBeCloseTo(0);
+  });
+
+  it('should read a device standing upright as 90 degrees front-back', () => {
+    expect(gravityToAngles(0, 9.81, 0).beta).toBeCloseTo(90);
+  });
+});
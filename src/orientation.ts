@@ -0,0 +1,167 @@
+import { InputState } from './physics';
+import type { InputSource } from './input';
+import { shapeTilt } from './input-filter';
+
+export interface OrientationSettings {
+  maxAngle: number; // Degrees of tilt from neutral for full input
+  deadZone: number; // Fraction of full tilt ignored around neutral, for sensor jitter (0-1)
+  exponent: number; // Response curve on top of the shared input filter's
+}
+
+export const DEFAULT_ORIENTATION_SETTINGS: OrientationSettings = {
+  maxAngle: 25,
+  deadZone: 0.08,
+  exponent: 1,
+};
+
+export interface TiltAngles {
+  beta: number; // Front-back tilt in degrees (-180 to 180)
+  gamma: number; // Left-right tilt in degrees (-90 to 90)
+}
+
+// iOS 13+ gates motion sensors behind a permission prompt
+type PermissionRequester = { requestPermission?: () => Promise<'granted' | 'denied'> };
+
+/**
+ * Convert device angles into maze tilt, relative to the calibrated neutral pose
+ * and corrected for the screen's rotation
+ */
+export function orientationToTilt(
+  angles: TiltAngles,
+  neutral: TiltAngles,
+  screenAngle: number,
+  settings: OrientationSettings
+): InputState {
+  const dBeta = wrapDegrees(angles.beta - neutral.beta);
+  const dGamma = angles.gamma - neutral.gamma;
+
+  // Rotate device axes into screen axes
+  let x: number;
+  let y: number;
+  switch (((screenAngle % 360) + 360) % 360) {
+    case 90:
+      x = dBeta;
+      y = -dGamma;
+      break;
+    case 180:
+      x = -dGamma;
+      y = -dBeta;
+      break;
+    case 270:
+      x = -dBeta;
+      y = dGamma;
+      break;
+    default:
+      x = dGamma;
+      y = dBeta;
+  }
+
+  return shapeTilt(
+    { tiltX: x / settings.maxAngle, tiltY: y / settings.maxAngle },
+    settings.deadZone,
+    settings.exponent
+  );
+}
+
+/**
+ * Estimate tilt angles from the gravity vector (DeviceMotion), for browsers
+ * that fire orientation events without angles
+ */
+export function gravityToAngles(x: number, y: number, z: number): TiltAngles {
+  return {
+    beta: (Math.atan2(y, z) * 180) / Math.PI,
+    gamma: (Math.atan2(-x, Math.hypot(y, z)) * 180) / Math.PI,
+  };
+}
+
+/**
+ * Tilt input from the device's orientation sensors
+ */
+export class OrientationInput implements InputSource {
+  private settings: OrientationSettings;
+  private latest: TiltAngles | null = null;
+  private neutral: TiltAngles | null = null;
+  private fromMotion = false; // Latest reading is the DeviceMotion estimate
+  private listening = false;
+
+  constructor(settings: OrientationSettings = DEFAULT_ORIENTATION_SETTINGS) {
+    this.settings = settings;
+  }
+
+  /**
+   * Whether this browser exposes orientation sensors at all
+   */
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' && 'DeviceOrientationEvent' in window;
+  }
+
+  /**
+   * Ask for sensor access (iOS) and start listening. Must be called from a
+   * user gesture such as a tap.
+   */
+  async enable(): Promise<boolean> {
+    const orientation = window.DeviceOrientationEvent as unknown as PermissionRequester;
+    const motion = window.DeviceMotionEvent as unknown as PermissionRequester | undefined;
+
+    try {
+      if (orientation.requestPermission) {
+        if ((await orientation.requestPermission()) !== 'granted') return false;
+      }
+      if (motion?.requestPermission) {
+        await motion.requestPermission();
+      }
+    } catch (error) {
+      console.error('Motion permission request failed', error);
+      return false;
+    }
+
+    this.listen();
+    return true;
+  }
+
+  /**
+   * Treat the current pose as level
+   */
+  calibrate() {
+    this.neutral = this.latest ? { ...this.latest } : null;
+  }
+
+  read(): InputState | null {
+    if (!this.latest) return null;
+
+    // First reading becomes neutral if the player hasn't calibrated
+    if (!this.neutral) this.calibrate();
+
+    return orientationToTilt(this.latest, this.neutral!, screenAngle(), this.settings);
+  }
+
+  private listen() {
+    if (this.listening) return;
+    this.listening = true;
+
+    window.addEventListener('deviceorientation', (e) => {
+      if (e.beta === null || e.gamma === null) return;
+      this.latest = { beta: e.beta, gamma: e.gamma };
+      this.fromMotion = false;
+    });
+
+    // Fallback for browsers whose orientation events carry no angles
+    window.addEventListener('devicemotion', (e) => {
+      const g = e.accelerationIncludingGravity;
+      if (!g || g.x === null || g.y === null || g.z === null) return;
+      if (this.latest && !this.fromMotion) return;
+
+      this.fromMotion = true;
+      this.latest = gravityToAngles(g.x, g.y, g.z);
+    });
+  }
+}
+
+function screenAngle(): number {
+  if (screen.orientation) return screen.orientation.angle;
+  return typeof window.orientation === 'number' ? window.orientation : 0;
+}
+
+function wrapDegrees(angle: number): number {
+  return ((((angle + 180) % 360) + 360) % 360) - 180;
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { LevelConfig } from './level';
+import { countsTowardStats, listArchive, parseGameParams } from './params';
+import { emptyProgress, recordResult } from './storage';
+import { LAUNCH_DAY } from './share';
+
+const TODAY = 20200; // 2025-04-22
+
+const defaults: LevelConfig = {
+  GRID_WIDTH: 8,
+  GRID_HEIGHT: 10,
+  GRAVITY: 1200,
+  FRICTION: 0.98,
+  BALL_RADIUS_RATIO: 0.3,
+  HOLE_RADIUS_RATIO: 0.2,
+  GOAL_RADIUS_RATIO: 0.3,
+  HOLE_COUNT: 20,
+  GENERATOR: 'backtracker',
+};
+
+const parse = (search: string) => parseGameParams(search, TODAY, defaults);
+
+describe('Params - Mode', () => {
+  it("should play today's maze with no parameters", () => {
+    const params = parse('');
+
+    expect(params.mode).toBe('daily');
+    expect(params.seed).toBe(TODAY);
+    expect(params.config).toEqual(defaults);
+    expect(countsTowardStats(params.mode)).toBe(true);
+  });
+
+  it('should open a previous day from the archive', () => {
+    const params = parse('?day=2025-04-20');
+
+    expect(params.mode).toBe('archive');
+    expect(params.seed).toBe(TODAY - 2);
+    expect(countsTowardStats(params.mode)).toBe(false);
+  });
+
+  it("should treat today's date as the daily puzzle", () => {
+    expect(parse('?day=2025-04-22').mode).toBe('daily');
+  });
+
+  it('should refuse days that have not been released', () => {
+    const params = parse('?day=2025-04-23');
+
+    expect(params.seed).toBe(TODAY);
+    expect(params.warnings).toHaveLength(1);
+  });
+
+  it('should reject impossible dates', () => {
+    expect(parse('?day=2025-02-31').warnings).toHaveLength(1);
+  });
+
+  it('should switch to practice for custom seeds and settings', () => {
+    expect(parse('?seed=42')).toMatchObject({ mode: 'practice', seed: 42 });
+    expect(parse('?holes=5').mode).toBe('practice');
+    expect(parse('?practice').mode).toBe('practice');
+  });
+
+  it('should open the editor as practice', () => {
+    expect(parse('?editor&day=2025-04-22')).toMatchObject({ mode: 'practice', editor: true });
+    expect(parse('').editor).toBe(false);
+  });
+
+  it('should play a hand-made maze as practice', () => {
+    expect(parse('?maze=abc')).toMatchObject({ mode: 'practice', maze: 'abc' });
+    expect(parse('').maze).toBeNull();
+  });
+
+  it('should keep the mode when a leaderboard is given', () => {
+    expect(parse('?leaderboard=http://localhost:8787')).toMatchObject({
+      mode: 'daily',
+      leaderboard: 'http://localhost:8787',
+    });
+    expect(parse('?leaderboard=localhost')).toMatchObject({ leaderboard: null, warnings: [expect.any(String)] });
+  });
+});
+
+describe('Params - Overrides', () => {
+  it('should apply grid size and generator settings', () => {
+    const { config } = parse('?width=12&height=6&holes=4&generator=prim&braid=0.5&clearance=0.2');
+
+    expect(config).toMatchObject({
+      GRID_WIDTH: 12,
+      GRID_HEIGHT: 6,
+      HOLE_COUNT: 4,
+      GENERATOR: 'prim',
+      BRAID: 0.5,
+      MIN_CLEARANCE: 0.2,
+    });
+  });
+
+  it('should clamp out of range values', () => {
+    const { config, warnings } = parse('?width=1&height=500&braid=3');
+
+    expect(config.GRID_WIDTH).toBe(2);
+    expect(config.GRID_HEIGHT).toBe(30);
+    expect(config.BRAID).toBe(1);
+    expect(warnings.length).toBeGreaterThan(0);
+  });
+
+  it('should limit holes to what fits on the board', () => {
+    expect(parse('?width=4&height=4&holes=50').config.HOLE_COUNT).toBe(5);
+  });
+
+  it('should pick a start and goal placement', () => {
+    const { mode, config } = parse('?placement=random&distance=15');
+
+    expect(mode).toBe('practice');
+    expect(config).toMatchObject({ PLACEMENT: 'random', MIN_GOAL_DISTANCE: 15 });
+    expect(parse('?placement=middle').warnings).toHaveLength(1);
+  });
+
+  it('should read tile counts and cap them', () => {
+    const { mode, config } = parse('?tiles=ice:3,bumper:50');
+
+    expect(mode).toBe('practice');
+    expect(config.TILES).toEqual({ ice: 3, bumper: 10 });
+  });
+
+  it('should ignore unknown tile types', () => {
+    const { config, warnings } = parse('?tiles=lava:2');
+
+    expect(config.TILES).toBeUndefined();
+    expect(warnings).toHaveLength(1);
+  });
+
+  it('should ignore values that are not numbers or known generators', () => {
+    const { config, warnings } = parse('?width=abc&holes=2.5&generator=nope&seed=1e400');
+
+    expect(config).toEqual(defaults);
+    expect(warnings).toHaveLength(4);
+  });
+});
+
+describe('Params - Archive', () => {
+  it('should list previous days newest first', () => {
+    const entries = listArchive(TODAY, emptyProgress(), 3);
+
+    expect(entries.map((e) => e.day)).toEqual([TODAY - 1, TODAY - 2, TODAY - 3]);
+    expect(entries[0]).toMatchObject({ date: '2025-04-21', href: '?day=2025-04-21' });
+  });
+
+  it('should stop at launch day', () => {
+    const entries = listArchive(LAUNCH_DAY + 2, emptyProgress());
+
+    expect(entries.map((e) => e.puzzle)).toEqual([2, 1]);
+  });
+
+  it('should include past results', () => {
+    const progress = recordResult(emptyProgress(), { seed: TODAY - 2, day: TODAY - 2, timeMs: 5000, resets: 0 });
+    const entries = listArchive(TODAY, progress, 3);
+
+    expect(entries[0].result).toBeNull();
+    expect(entries[1].result?.timeMs).toBe(5000);
+  });
+});
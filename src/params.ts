@@ -0,0 +1,211 @@
+import { LevelConfig } from './level';
+import { GENERATORS, GeneratorAlgorithm } from './generators';
+import { ProgressData, RunResult, dayToDate } from './storage';
+import { LAUNCH_DAY, puzzleNumber } from './share';
+import { TILE_TYPES, TileCounts } from './tiles';
+import { TileType } from './maze';
+import { PLACEMENT_STRATEGIES, PlacementStrategy } from './placement';
+
+/**
+ * daily: today's puzzle, counts toward stats
+ * archive: a previous day's puzzle with the standard settings
+ * practice: any seed or settings, for reproducing boards and tuning
+ */
+export type GameMode = 'daily' | 'archive' | 'practice';
+
+export interface GameParams {
+  mode: GameMode;
+  seed: number;
+  config: LevelConfig;
+  warnings: string[]; // Parameters that were ignored or adjusted
+  editor: boolean; // Open the level editor on this board instead of playing it
+  maze: string | null; // Encoded hand-made maze (see maze-file) to use instead of generating one
+  leaderboard: string | null; // Leaderboard server to post daily runs to (doesn't change the mode)
+}
+
+export interface ArchiveEntry {
+  day: number;
+  date: string; // YYYY-MM-DD
+  puzzle: number;
+  href: string;
+  result: RunResult | null; // Set if the day was solved when it was live
+}
+
+/** Largest board a URL can ask for */
+export const MAX_GRID_SIZE = 30;
+
+/** Most of any one tile type a URL can ask for */
+export const MAX_TILES = 10;
+
+/** Days listed in the archive view */
+export const ARCHIVE_LENGTH = 30;
+
+// Config keys each URL parameter overrides
+const NUMERIC_PARAMS = [
+  { name: 'width', key: 'GRID_WIDTH', min: 2, max: MAX_GRID_SIZE, integer: true },
+  { name: 'height', key: 'GRID_HEIGHT', min: 2, max: MAX_GRID_SIZE, integer: true },
+  { name: 'holes', key: 'HOLE_COUNT', min: 0, max: Infinity, integer: true },
+  { name: 'braid', key: 'BRAID', min: 0, max: 1, integer: false },
+  { name: 'clearance', key: 'MIN_CLEARANCE', min: 0, max: 1, integer: false },
+  { name: 'checkpoints', key: 'CHECKPOINTS', min: 0, max: 10, integer: true },
+  { name: 'balls', key: 'BALL_COUNT', min: 1, max: 5, integer: true },
+  { name: 'distance', key: 'MIN_GOAL_DISTANCE', min: 1, max: MAX_GRID_SIZE * MAX_GRID_SIZE, integer: true },
+] as const;
+
+/**
+ * Work out which board to play from the query string. Anything other than
+ * today's standard puzzle is archive or practice, so it never touches stats.
+ */
+export function parseGameParams(search: string, today: number, defaults: LevelConfig): GameParams {
+  const params = new URLSearchParams(search);
+  const warnings: string[] = [];
+  const config: LevelConfig = { ...defaults };
+  const editor = params.has('editor');
+  const maze = params.get('maze');
+  let mode: GameMode = params.has('practice') || editor || maze !== null ? 'practice' : 'daily';
+  let seed = today;
+
+  const day = params.get('day');
+  if (day !== null) {
+    const parsed = parseDay(day);
+    if (parsed === null) {
+      warnings.push(`Ignoring day "${day}": expected YYYY-MM-DD`);
+    } else if (parsed > today) {
+      warnings.push(`Ignoring day ${day}: that maze hasn't been released yet`);
+    } else {
+      seed = parsed;
+      if (parsed < today && mode === 'daily') mode = 'archive';
+    }
+  }
+
+  const customSeed = params.get('seed');
+  if (customSeed !== null) {
+    const parsed = Number(customSeed);
+    if (Number.isSafeInteger(parsed)) {
+      seed = parsed;
+      mode = 'practice';
+    } else {
+      warnings.push(`Ignoring seed "${customSeed}": expected an integer`);
+    }
+  }
+
+  for (const { name, key, min, max, integer } of NUMERIC_PARAMS) {
+    const raw = params.get(name);
+    if (raw === null) continue;
+
+    const value = Number(raw);
+    if (raw.trim() === '' || !Number.isFinite(value) || (integer && !Number.isInteger(value))) {
+      warnings.push(`Ignoring ${name} "${raw}": expected ${integer ? 'an integer' : 'a number'}`);
+      continue;
+    }
+
+    const clamped = Math.max(min, Math.min(max, value));
+    if (clamped !== value) warnings.push(`Clamped ${name} to ${clamped}`);
+    config[key] = clamped;
+    mode = 'practice';
+  }
+
+  // Leave room for the start, the goal and the gaps between holes
+  const maxHoles = Math.floor((config.GRID_WIDTH * config.GRID_HEIGHT) / 3);
+  if (config.HOLE_COUNT > maxHoles) {
+    warnings.push(`Clamped holes to ${maxHoles} for a ${config.GRID_WIDTH}x${config.GRID_HEIGHT} board`);
+    config.HOLE_COUNT = maxHoles;
+  }
+
+  const generator = params.get('generator');
+  if (generator !== null) {
+    if (generator in GENERATORS) {
+      config.GENERATOR = generator as GeneratorAlgorithm;
+      mode = 'practice';
+    } else {
+      warnings.push(`Ignoring generator "${generator}": expected one of ${Object.keys(GENERATORS).join(', ')}`);
+    }
+  }
+
+  const placement = params.get('placement');
+  if (placement !== null) {
+    if (PLACEMENT_STRATEGIES.includes(placement as PlacementStrategy)) {
+      config.PLACEMENT = placement as PlacementStrategy;
+      mode = 'practice';
+    } else {
+      warnings.push(`Ignoring placement "${placement}": expected one of ${PLACEMENT_STRATEGIES.join(', ')}`);
+    }
+  }
+
+  let leaderboard = params.get('leaderboard');
+  if (leaderboard !== null && !/^https?:\/\/[^/]/.test(leaderboard)) {
+    warnings.push(`Ignoring leaderboard "${leaderboard}": expected an http(s) URL`);
+    leaderboard = null;
+  }
+
+  const tiles = params.get('tiles');
+  if (tiles !== null) {
+    const counts = parseTiles(tiles);
+    if (counts) {
+      config.TILES = counts;
+      mode = 'practice';
+    } else {
+      warnings.push(`Ignoring tiles "${tiles}": expected e.g. ice:3,bumper:2 using ${TILE_TYPES.join(', ')}`);
+    }
+  }
+
+  return { mode, seed, config, warnings, editor, maze, leaderboard };
+}
+
+/**
+ * Only today's standard puzzle feeds streaks and the histogram
+ */
+export function countsTowardStats(mode: GameMode): boolean {
+  return mode === 'daily';
+}
+
+/**
+ * Previous days' puzzles, newest first, back to launch day
+ */
+export function listArchive(today: number, progress: ProgressData, length = ARCHIVE_LENGTH): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+
+  for (let day = today - 1; day >= Math.max(LAUNCH_DAY, today - length); day--) {
+    const date = dayToDate(day);
+    entries.push({
+      day,
+      date,
+      puzzle: puzzleNumber(day),
+      href: `?day=${date}`,
+      result: progress.results[day] ?? null,
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Tile counts from a `type:count,...` list
+ */
+function parseTiles(value: string): TileCounts | null {
+  const counts: TileCounts = {};
+
+  for (const entry of value.split(',')) {
+    const [type, count] = entry.split(':');
+    const n = Number(count);
+    if (!TILE_TYPES.includes(type as TileType) || !Number.isInteger(n) || n < 0) return null;
+    counts[type as TileType] = Math.min(n, MAX_TILES);
+  }
+
+  return counts;
+}
+
+/**
+ * Days since epoch from YYYY-MM-DD (or a raw day number)
+ */
+function parseDay(value: string): number | null {
+  if (/^\d+$/.test(value)) return Number(value);
+
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+
+  const time = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  // Reject dates like 2025-02-31 that Date.UTC silently rolls over
+  if (dayToDate(time / 86400000) !== value) return null;
+  return time / 86400000;
+}
@@ -15,15 +15,18 @@ const createTestMaze = (size: number): Maze => {
     }
   }
   return {
-    size,
+    width: size,
+    height: size,
     cells,
     holes: [],
     goal: { x: size - 1, y: size - 1 },
+    start: { x: 0, y: 0 },
   };
 };
 
 const testConfig: Config = {
-  GRID_SIZE: 3,
+  GRID_WIDTH: 3,
+  GRID_HEIGHT: 3,
   GRAVITY: 1000,
   FRICTION: 0.98,
   BALL_RADIUS_RATIO: 0.4,
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { updateBall, Ball, Config, InputState } from './physics';
 import { Maze, Cell } from './maze';
+import { DAILY_CONFIG } from './level';
 
 const createTestMaze = (size: number): Maze => {
   const cells: Cell[][] = [];
@@ -15,15 +16,18 @@ const createTestMaze = (size: number): Maze => {
     }
   }
   return {
-    size,
+    width: size,
+    height: size,
     cells,
     holes: [],
     goal: { x: size - 1, y: size - 1 },
+    start: { x: 0, y: 0 },
   };
 };
 
 const testConfig: Config = {
-  GRID_SIZE: 3,
+  GRID_WIDTH: 3,
+  GRID_HEIGHT: 3,
   GRAVITY: 1000,
   FRICTION: 0.98,
   BALL_RADIUS_RATIO: 0.4,
@@ -212,6 +216,149 @@ describe('Physics - Holes', () => {
     expect(result.won).toBe(true);
     expect(result.reset).toBe(false);
   });
+
+  it('should report where the ball fell in', () => {
+    const maze = createTestMaze(3);
+    maze.holes = [{ x: 1, y: 1, offsetX: 0.1, offsetY: 0 }];
+
+    const ball: Ball = { x: 160, y: 150, vx: 0, vy: 0 };
+    const result = updateBall(ball, { tiltX: 0, tiltY: 0 }, maze, testConfig, cellSize, 0.016);
+
+    expect(result.hole).toEqual({ x: 160, y: 150 });
+  });
+
+  it('should not drop until the centre is past the rim', () => {
+    const maze = createTestMaze(3);
+    maze.holes = [{ x: 1, y: 1 }];
+
+    // Ball overlaps the hole but its centre is still on the board
+    const ball: Ball = { x: 150 + 35, y: 150, vx: 0, vy: 0 };
+    const result = updateBall(ball, { tiltX: 0, tiltY: 0 }, maze, testConfig, cellSize, 0.016);
+
+    expect(result.reset).toBe(false);
+  });
+
+  it('should pull a ball on the lip towards the hole', () => {
+    const maze = createTestMaze(3);
+    maze.holes = [{ x: 1, y: 1 }];
+    const config = { ...testConfig, HOLE_PULL: 0.5 };
+
+    const ball: Ball = { x: 150 + 40, y: 150, vx: 0, vy: 0 };
+    updateBall(ball, { tiltX: 0, tiltY: 0 }, maze, config, cellSize, 0.016);
+
+    expect(ball.vx).toBeLessThan(0);
+    expect(ball.vy).toBe(0);
+  });
+
+  it('should leave a ball clear of the lip alone', () => {
+    const maze = createTestMaze(3);
+    maze.holes = [{ x: 1, y: 1 }];
+    const config = { ...testConfig, HOLE_PULL: 0.5 };
+
+    const ball: Ball = { x: 150 + 75, y: 150, vx: 0, vy: 0 };
+    updateBall(ball, { tiltX: 0, tiltY: 0 }, maze, config, cellSize, 0.016);
+
+    expect(ball.vx).toBe(0);
+  });
+
+  it('should report the checkpoint the ball is on', () => {
+    const maze = createTestMaze(3);
+    maze.checkpoints = [
+      { x: 0, y: 1 },
+      { x: 1, y: 1 },
+    ];
+
+    const ball: Ball = { x: 150, y: 150, vx: 0, vy: 0 };
+    const result = updateBall(ball, { tiltX: 0, tiltY: 0 }, maze, testConfig, cellSize, 0.016);
+
+    expect(result.checkpoint).toBe(1);
+  });
+
+  it('should let a fast ball skim across a hole', () => {
+    const maze = createTestMaze(3);
+    maze.holes = [{ x: 1, y: 1 }];
+    const config = { ...testConfig, SKIM_SPEED: 3 };
+
+    const fast: Ball = { x: 150, y: 150, vx: 500, vy: 0 };
+    const slow: Ball = { x: 150, y: 150, vx: 100, vy: 0 };
+
+    expect(updateBall(fast, { tiltX: 0, tiltY: 0 }, maze, config, cellSize, 0.001).reset).toBe(false);
+    expect(updateBall(slow, { tiltX: 0, tiltY: 0 }, maze, config, cellSize, 0.001).reset).toBe(true);
+  });
+
+  it('should not let a ball rolling at full tilt skim over a daily hole', () => {
+    const maze = createTestMaze(3);
+    const fullTilt: InputState = { tiltX: 1, tiltY: 1 };
+    const ball: Ball = { x: 50, y: 50, vx: 0, vy: 0 };
+
+    // Ten seconds is plenty for friction to balance the tilt; hold it in the open meanwhile
+    for (let i = 0; i < 1200; i++) {
+      ball.x = ball.y = 50;
+      updateBall(ball, fullTilt, maze, DAILY_CONFIG, cellSize, 1 / 120);
+    }
+
+    maze.holes = [{ x: 1, y: 1 }];
+    ball.x = ball.y = 140;
+    expect(updateBall(ball, fullTilt, maze, DAILY_CONFIG, cellSize, 1 / 120).reset).toBe(true);
+  });
+});
+
+describe('Physics - Friction', () => {
+  const cellSize = 100;
+
+  it('should slow the ball the same over a second whatever the tick rate', () => {
+    const speedAfterSecond = (rate: number) => {
+      const ball: Ball = { x: 150, y: 150, vx: 100, vy: 0 };
+      for (let i = 0; i < rate; i++) {
+        ball.x = 150; // Keep it clear of the walls
+        updateBall(ball, { tiltX: 0, tiltY: 0 }, createTestMaze(3), testConfig, cellSize, 1 / rate);
+      }
+      return ball.vx;
+    };
+
+    expect(speedAfterSecond(60)).toBeCloseTo(100 * testConfig.FRICTION ** 60, 6);
+    expect(speedAfterSecond(120)).toBeCloseTo(speedAfterSecond(60), 6);
+  });
+});
+
+describe('Physics - Tiles', () => {
+  const cellSize = 100;
+  const still: InputState = { tiltX: 0, tiltY: 0 };
+
+  it('should keep more speed on ice and less in mud than on plain floor', () => {
+    const speedAfter = (type?: 'ice' | 'mud') => {
+      const maze = createTestMaze(3);
+      if (type) maze.cells[1][0].tile = { type };
+      const ball: Ball = { x: 40, y: 150, vx: 100, vy: 0 };
+      updateBall(ball, still, maze, testConfig, cellSize, 0.1);
+      return ball.vx;
+    };
+
+    expect(speedAfter('ice')).toBeGreaterThan(speedAfter());
+    expect(speedAfter('mud')).toBeLessThan(speedAfter());
+  });
+
+  it('should roll a resting ball downhill on a slope', () => {
+    const maze = createTestMaze(3);
+    maze.cells[1][1].tile = { type: 'slope', direction: 'west' };
+
+    const ball: Ball = { x: 150, y: 150, vx: 0, vy: 0 };
+    updateBall(ball, still, maze, testConfig, cellSize, 0.05);
+
+    expect(ball.vx).toBeLessThan(0);
+    expect(ball.vy).toBe(0);
+  });
+
+  it('should kick the ball away from a bumper', () => {
+    const maze = createTestMaze(3);
+    maze.cells[1][1].tile = { type: 'bumper' };
+
+    // Rolling right into the bumper at the centre of the middle cell
+    const ball: Ball = { x: 150 - 40 - 15 - 1, y: 150, vx: 50, vy: 0 };
+    updateBall(ball, still, maze, testConfig, cellSize, 0.05);
+
+    expect(ball.vx).toBeLessThan(-200);
+  });
 });
 
 describe('Physics - Bounds', () => {
@@ -237,7 +384,32 @@ describe('Physics - Bounds', () => {
 
     updateBall(ball, input, maze, testConfig, cellSize, 0.1);
 
-    expect(ball.x).toBeLessThanOrEqual(maze.size * cellSize - cellSize * testConfig.BALL_RADIUS_RATIO);
+    expect(ball.x).toBeLessThanOrEqual(maze.width * cellSize - cellSize * testConfig.BALL_RADIUS_RATIO);
     expect(ball.vx).toBe(0);
   });
+
+  it('should use the maze height for the bottom boundary of a tall maze', () => {
+    const maze = createTestMaze(3);
+    maze.height = 5;
+    maze.cells.push(
+      ...[3, 4].map((y) =>
+        [0, 1, 2].map((x) => ({
+          x,
+          y,
+          walls: { north: false, east: false, south: false, west: false },
+        }))
+      )
+    );
+
+    const ball: Ball = { x: 150, y: 300, vx: 0, vy: 500 };
+    const input: InputState = { tiltX: 0, tiltY: 1 };
+
+    for (let i = 0; i < 20; i++) {
+      updateBall(ball, input, maze, testConfig, cellSize, 0.016);
+    }
+
+    // Rolled past the third row, stopped by the bottom of the fifth
+    expect(ball.y).toBeCloseTo(500 - cellSize * testConfig.BALL_RADIUS_RATIO);
+    expect(ball.vy).toBe(0);
+  });
 });
@@ -1,4 +1,20 @@
-import { Maze } from './maze';
+import { Hole, Maze, Tile } from './maze';
+import { getSegmentsAt, moveCircle } from './collision';
+import { DIRECTIONS } from './analysis';
+
+/** FRICTION was tuned as the speed kept per frame at this frame rate */
+const FRICTION_FRAME_RATE = 60;
+
+/** Friction multipliers relative to the normal floor */
+const ICE_DRAG = 0.2;
+const MUD_DRAG = 4;
+
+/** Share of full-tilt gravity a slope tile adds downhill */
+const SLOPE_PULL = 0.35;
+
+/** Bumper post radius (cells) and the least speed it sends the ball off at (cells/s) */
+export const BUMPER_RADIUS = 0.15;
+const BUMPER_SPEED = 3;
 
 export interface Ball {
   x: number; // World coordinates (pixels)
@@ -8,12 +24,17 @@ export interface Ball {
 }
 
 export interface Config {
-  GRID_SIZE: number;
+  GRID_WIDTH: number;
+  GRID_HEIGHT: number;
   GRAVITY: number;
-  FRICTION: number;
+  FRICTION: number; // Share of speed kept per 1/60 s, whatever the tick rate
   BALL_RADIUS_RATIO: number;
   HOLE_RADIUS_RATIO: number;
   GOAL_RADIUS_RATIO: number;
+  RESTITUTION?: number; // Share of speed kept bouncing off a wall (0 = dead stop)
+  HOLE_PULL?: number; // Share of gravity drawing the ball in once it rolls onto a hole's lip
+  SKIM_SPEED?: number; // Cells/s above which the ball rolls straight over a hole
+  BALL_COUNT?: number; // Balls in play; all of them must reach the goal (default 1)
 }
 
 export interface InputState {
@@ -21,308 +42,155 @@ export interface InputState {
   tiltY: number;
 }
 
+export interface BallResult {
+  reset: boolean; // Fell into a hole
+  won: boolean;
+  hole?: { x: number; y: number }; // Centre of the hole it fell into (world units)
+  checkpoint?: number; // Index into maze.checkpoints of the tile the ball is on
+}
+
 /**
  * Update ball physics based on tilt input
  */
-/**
- * Check if circle collides with line segment
- */
-function circleLineCollision(
-  cx: number, cy: number, radius: number,
-  x1: number, y1: number, x2: number, y2: number
-): { collides: boolean; nx?: number; ny?: number } {
-  // Find closest point on line segment to circle center
-  const dx = x2 - x1;
-  const dy = y2 - y1;
-  const lengthSq = dx * dx + dy * dy;
-
-  if (lengthSq === 0) {
-    // Line segment is a point
-    const distSq = (cx - x1) * (cx - x1) + (cy - y1) * (cy - y1);
-    return { collides: distSq <= radius * radius };
-  }
-
-  // Project circle center onto line
-  let t = ((cx - x1) * dx + (cy - y1) * dy) / lengthSq;
-  t = Math.max(0, Math.min(1, t));
-
-  const closestX = x1 + t * dx;
-  const closestY = y1 + t * dy;
-
-  const distX = cx - closestX;
-  const distY = cy - closestY;
-  const distSq = distX * distX + distY * distY;
-
-  if (distSq <= radius * radius) {
-    const dist = Math.sqrt(distSq);
-    return {
-      collides: true,
-      nx: dist > 0 ? distX / dist : 0,
-      ny: dist > 0 ? distY / dist : 0,
-    };
-  }
-
-  return { collides: false };
-}
-
 export function updateBall(
   ball: Ball,
   input: InputState,
   maze: Maze,
   config: Config,
   cellSize: number,
-  dt: number
-): { reset: boolean; won: boolean } {
-  // Apply gravity based on tilt
-  const ax = input.tiltX * config.GRAVITY;
-  const ay = input.tiltY * config.GRAVITY;
-
-  // Update velocity
-  ball.vx += ax * dt;
-  ball.vy += ay * dt;
-
-  // Apply friction
-  ball.vx *= config.FRICTION;
-  ball.vy *= config.FRICTION;
-
-  // Ball radius in pixels
+  dt: number,
+  time = 0 // Seconds into the run, for doors
+): BallResult {
+  const tile = tileAt(maze, ball.x, ball.y, cellSize);
   const ballRadius = cellSize * config.BALL_RADIUS_RATIO;
+  const holeRadius = cellSize * config.HOLE_RADIUS_RATIO;
+  const goalRadius = cellSize * config.GOAL_RADIUS_RATIO;
+  const goal = holeCenter(maze.goal, cellSize);
+  const holes = maze.holes.map((hole) => holeCenter(hole, cellSize));
 
-  // Store old position
-  const oldX = ball.x;
-  const oldY = ball.y;
-
-  // Update X position
-  ball.x += ball.vx * dt;
-
-  // Check all walls the ball might be passing through
-  // For X direction, check all cell boundaries between old and new position
-  if (ball.vx !== 0) {
-    const minX = Math.min(oldX - ballRadius, ball.x - ballRadius);
-    const maxX = Math.max(oldX + ballRadius, ball.x + ballRadius);
-
-    const cellY = Math.floor(ball.y / cellSize);
-
-    for (let x = Math.floor(minX / cellSize); x < Math.ceil(maxX / cellSize); x++) {
-      if (x < 0 || x >= maze.size || cellY < 0 || cellY >= maze.size) continue;
-
-      const cell = maze.cells[cellY][x];
-
-      // Check east wall
-      if (ball.vx > 0 && cell.walls.east) {
-        const wallX = (x + 1) * cellSize;
-        if (oldX + ballRadius <= wallX && ball.x + ballRadius > wallX) {
-          ball.x = wallX - ballRadius;
-          ball.vx = 0;
-          break;
-        }
-      }
-
-      // Check west wall
-      if (ball.vx < 0 && cell.walls.west) {
-        const wallX = x * cellSize;
-        if (oldX - ballRadius >= wallX && ball.x - ballRadius < wallX) {
-          ball.x = wallX + ballRadius;
-          ball.vx = 0;
-          break;
-        }
-      }
-    }
-  }
-
-  // Update Y position
-  ball.y += ball.vy * dt;
-
-  // Check all walls the ball might be passing through
-  // For Y direction, check all cell boundaries between old and new position
-  if (ball.vy !== 0) {
-    const minY = Math.min(oldY - ballRadius, ball.y - ballRadius);
-    const maxY = Math.max(oldY + ballRadius, ball.y + ballRadius);
-
-    const cellX = Math.floor(ball.x / cellSize);
-
-    for (let y = Math.floor(minY / cellSize); y < Math.ceil(maxY / cellSize); y++) {
-      if (y < 0 || y >= maze.size || cellX < 0 || cellX >= maze.size) continue;
-
-      const cell = maze.cells[y][cellX];
-
-      // Check south wall
-      if (ball.vy > 0 && cell.walls.south) {
-        const wallY = (y + 1) * cellSize;
-        if (oldY + ballRadius <= wallY && ball.y + ballRadius > wallY) {
-          ball.y = wallY - ballRadius;
-          ball.vy = 0;
-          break;
-        }
-      }
-
-      // Check north wall
-      if (ball.vy < 0 && cell.walls.north) {
-        const wallY = y * cellSize;
-        if (oldY - ballRadius >= wallY && ball.y - ballRadius < wallY) {
-          ball.y = wallY + ballRadius;
-          ball.vy = 0;
-          break;
-        }
-      }
+  // Apply gravity based on tilt
+  let ax = input.tiltX * config.GRAVITY;
+  let ay = input.tiltY * config.GRAVITY;
+
+  // Holes are dished: once the ball's edge is over one, the slope pulls it in
+  if (config.HOLE_PULL) {
+    const pull = config.HOLE_PULL * config.GRAVITY;
+    const targets = [{ ...goal, radius: goalRadius }, ...holes.map((h) => ({ ...h, radius: holeRadius }))];
+    for (const { x, y, radius } of targets) {
+      const dx = x - ball.x;
+      const dy = y - ball.y;
+      const dist = Math.hypot(dx, dy);
+      const lip = radius + ballRadius;
+      if (dist === 0 || dist >= lip) continue;
+
+      const strength = Math.min(1, (lip - dist) / ballRadius);
+      ax += (dx / dist) * pull * strength;
+      ay += (dy / dist) * pull * strength;
     }
   }
 
-  // Bounds check
-  if (ball.x - ballRadius < 0) {
-    ball.x = ballRadius;
-    ball.vx = 0;
-  }
-  if (ball.x + ballRadius > maze.size * cellSize) {
-    ball.x = maze.size * cellSize - ballRadius;
-    ball.vx = 0;
-  }
-  if (ball.y - ballRadius < 0) {
-    ball.y = ballRadius;
-    ball.vy = 0;
-  }
-  if (ball.y + ballRadius > maze.size * cellSize) {
-    ball.y = maze.size * cellSize - ballRadius;
-    ball.vy = 0;
+  // Slopes keep pushing downhill
+  if (tile?.type === 'slope') {
+    const { dx, dy } = DIRECTIONS[tile.direction];
+    ax += dx * SLOPE_PULL * config.GRAVITY;
+    ay += dy * SLOPE_PULL * config.GRAVITY;
   }
 
-  // Additional check: collision with all wall segments (handles corners/ends)
-  const minCellX = Math.max(0, Math.floor((ball.x - ballRadius) / cellSize));
-  const maxCellX = Math.min(maze.size - 1, Math.floor((ball.x + ballRadius) / cellSize));
-  const minCellY = Math.max(0, Math.floor((ball.y - ballRadius) / cellSize));
-  const maxCellY = Math.min(maze.size - 1, Math.floor((ball.y + ballRadius) / cellSize));
-
-  for (let cy = minCellY; cy <= maxCellY; cy++) {
-    for (let cx = minCellX; cx <= maxCellX; cx++) {
-      const cell = maze.cells[cy][cx];
-      const cellX = cx * cellSize;
-      const cellY = cy * cellSize;
+  // Update velocity
+  ball.vx += ax * dt;
+  ball.vy += ay * dt;
 
-      // Check each wall as a line segment
-      if (cell.walls.north) {
-        const col = circleLineCollision(
-          ball.x, ball.y, ballRadius,
-          cellX, cellY, cellX + cellSize, cellY
-        );
-        if (col.collides && col.nx !== undefined && col.ny !== undefined) {
-          // Find distance from ball to closest point on line
-          const dx = cellX + cellSize - cellX;
-          const dy = cellY - cellY;
-          const t = Math.max(0, Math.min(1, ((ball.x - cellX) * dx + (ball.y - cellY) * dy) / (dx * dx + dy * dy)));
-          const closestX = cellX + t * dx;
-          const closestY = cellY + t * dy;
-          const dist = Math.sqrt((ball.x - closestX) ** 2 + (ball.y - closestY) ** 2);
-          const overlap = ballRadius - dist;
-          if (overlap > 0) {
-            ball.x += col.nx * overlap;
-            ball.y += col.ny * overlap;
-            ball.vy = 0;
-          }
-        }
-      }
+  // Apply friction, scaled by what the ball is rolling on
+  const drag = tile?.type === 'ice' ? ICE_DRAG : tile?.type === 'mud' ? MUD_DRAG : 1;
+  const friction = Math.pow(Math.max(0, 1 - (1 - config.FRICTION) * drag), dt * FRICTION_FRAME_RATE);
+  ball.vx *= friction;
+  ball.vy *= friction;
 
-      if (cell.walls.south) {
-        const col = circleLineCollision(
-          ball.x, ball.y, ballRadius,
-          cellX, cellY + cellSize, cellX + cellSize, cellY + cellSize
-        );
-        if (col.collides && col.nx !== undefined && col.ny !== undefined) {
-          const dx = cellX + cellSize - cellX;
-          const dy = (cellY + cellSize) - (cellY + cellSize);
-          const t = Math.max(0, Math.min(1, ((ball.x - cellX) * dx + (ball.y - (cellY + cellSize)) * dy) / (dx * dx + dy * dy)));
-          const closestX = cellX + t * dx;
-          const closestY = cellY + cellSize + t * dy;
-          const dist = Math.sqrt((ball.x - closestX) ** 2 + (ball.y - closestY) ** 2);
-          const overlap = ballRadius - dist;
-          if (overlap > 0) {
-            ball.x += col.nx * overlap;
-            ball.y += col.ny * overlap;
-            ball.vy = 0;
-          }
-        }
-      }
+  // Move, sliding along or bouncing off any walls in the way
+  moveCircle(ball, ballRadius, getSegmentsAt(maze, time), cellSize, dt, config.RESTITUTION);
+  bounceOffBumpers(ball, ballRadius, maze, cellSize);
 
-      if (cell.walls.west) {
-        const col = circleLineCollision(
-          ball.x, ball.y, ballRadius,
-          cellX, cellY, cellX, cellY + cellSize
-        );
-        if (col.collides && col.nx !== undefined && col.ny !== undefined) {
-          const dx = cellX - cellX;
-          const dy = cellY + cellSize - cellY;
-          const t = Math.max(0, Math.min(1, ((ball.x - cellX) * dx + (ball.y - cellY) * dy) / (dx * dx + dy * dy)));
-          const closestX = cellX + t * dx;
-          const closestY = cellY + t * dy;
-          const dist = Math.sqrt((ball.x - closestX) ** 2 + (ball.y - closestY) ** 2);
-          const overlap = ballRadius - dist;
-          if (overlap > 0) {
-            ball.x += col.nx * overlap;
-            ball.y += col.ny * overlap;
-            ball.vx = 0;
-          }
-        }
-      }
+  // The ball only drops once its centre is past the rim
+  if (Math.hypot(ball.x - goal.x, ball.y - goal.y) < goalRadius) {
+    return { reset: false, won: true };
+  }
 
-      if (cell.walls.east) {
-        const col = circleLineCollision(
-          ball.x, ball.y, ballRadius,
-          cellX + cellSize, cellY, cellX + cellSize, cellY + cellSize
-        );
-        if (col.collides && col.nx !== undefined && col.ny !== undefined) {
-          const dx = (cellX + cellSize) - (cellX + cellSize);
-          const dy = cellY + cellSize - cellY;
-          const t = Math.max(0, Math.min(1, ((ball.x - (cellX + cellSize)) * dx + (ball.y - cellY) * dy) / (dx * dx + dy * dy)));
-          const closestX = cellX + cellSize + t * dx;
-          const closestY = cellY + t * dy;
-          const dist = Math.sqrt((ball.x - closestX) ** 2 + (ball.y - closestY) ** 2);
-          const overlap = ballRadius - dist;
-          if (overlap > 0) {
-            ball.x += col.nx * overlap;
-            ball.y += col.ny * overlap;
-            ball.vx = 0;
-          }
-        }
-      }
+  // ...and only if it isn't moving fast enough to skim across
+  const skimSpeed = (config.SKIM_SPEED ?? Infinity) * cellSize;
+  const speed = Math.hypot(ball.vx, ball.vy);
+  for (const hole of holes) {
+    if (Math.hypot(ball.x - hole.x, ball.y - hole.y) < holeRadius && speed < skimSpeed) {
+      return { reset: true, won: false, hole };
     }
   }
 
-  // Check holes
-  const holeRadius = cellSize * config.HOLE_RADIUS_RATIO;
-  const goalRadius = cellSize * config.GOAL_RADIUS_RATIO;
-
-  // Check goal hole
-  const goalX = (maze.goal.x + 0.5) * cellSize;
-  const goalY = (maze.goal.y + 0.5) * cellSize;
-  const distToGoal = Math.sqrt(
-    (ball.x - goalX) ** 2 + (ball.y - goalY) ** 2
-  );
-
-  if (distToGoal < goalRadius) {
-    return { reset: false, won: true };
+  const cellX = Math.floor(ball.x / cellSize);
+  const cellY = Math.floor(ball.y / cellSize);
+  const checkpoint = maze.checkpoints?.findIndex((c) => c.x === cellX && c.y === cellY) ?? -1;
+  if (checkpoint >= 0) {
+    return { reset: false, won: false, checkpoint };
   }
 
-  // Check other holes
-  for (const hole of maze.holes) {
-    const holeX = (hole.x + 0.5 + (hole.offsetX || 0)) * cellSize;
-    const holeY = (hole.y + 0.5 + (hole.offsetY || 0)) * cellSize;
-    const distToHole = Math.sqrt(
-      (ball.x - holeX) ** 2 + (ball.y - holeY) ** 2
-    );
+  return { reset: false, won: false };
+}
 
-    if (distToHole < holeRadius) {
-      return { reset: true, won: false };
+/**
+ * Special tile under the ball's centre, if any
+ */
+function tileAt(maze: Maze, x: number, y: number, cellSize: number): Tile | undefined {
+  const cellX = Math.floor(x / cellSize);
+  const cellY = Math.floor(y / cellSize);
+  return maze.cells[cellY]?.[cellX]?.tile;
+}
+
+/**
+ * Kick the ball away from any bumper it touches, at least at BUMPER_SPEED
+ */
+function bounceOffBumpers(ball: Ball, ballRadius: number, maze: Maze, cellSize: number) {
+  const cellX = Math.floor(ball.x / cellSize);
+  const cellY = Math.floor(ball.y / cellSize);
+  const reach = ballRadius + BUMPER_RADIUS * cellSize;
+
+  // A bumper sits in the middle of its cell, so only neighbours can be touching
+  for (let y = cellY - 1; y <= cellY + 1; y++) {
+    for (let x = cellX - 1; x <= cellX + 1; x++) {
+      if (maze.cells[y]?.[x]?.tile?.type !== 'bumper') continue;
+
+      const dx = ball.x - (x + 0.5) * cellSize;
+      const dy = ball.y - (y + 0.5) * cellSize;
+      const dist = Math.hypot(dx, dy);
+      if (dist >= reach || dist === 0) continue;
+
+      const nx = dx / dist;
+      const ny = dy / dist;
+      ball.x += nx * (reach - dist);
+      ball.y += ny * (reach - dist);
+
+      // Reflect, then make sure it leaves with some spring
+      const vn = ball.vx * nx + ball.vy * ny;
+      const outgoing = Math.max(Math.abs(vn), BUMPER_SPEED * cellSize);
+      ball.vx += (outgoing - vn) * nx;
+      ball.vy += (outgoing - vn) * ny;
     }
   }
+}
 
-  return { reset: false, won: false };
+/**
+ * Centre of a hole in world units, including its offset within the cell
+ */
+export function holeCenter(hole: Hole, cellSize: number): { x: number; y: number } {
+  return {
+    x: (hole.x + 0.5 + (hole.offsetX || 0)) * cellSize,
+    y: (hole.y + 0.5 + (hole.offsetY || 0)) * cellSize,
+  };
 }
 
 /**
- * Reset ball to starting position
+ * Reset ball to the centre of a cell (the maze start or a checkpoint)
  */
-export function resetBall(ball: Ball, cellSize: number) {
-  ball.x = cellSize * 0.5;
-  ball.y = cellSize * 0.5;
+export function resetBall(ball: Ball, cellSize: number, cell: { x: number; y: number }) {
+  ball.x = cellSize * (cell.x + 0.5);
+  ball.y = cellSize * (cell.y + 0.5);
   ball.vx = 0;
   ball.vy = 0;
 }
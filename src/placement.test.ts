@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { generateMaze } from './maze';
+import { createGrid } from './generators';
+import { distancesFrom, placeStartAndGoal } from './placement';
+import { seedRNG } from './utils';
+
+const routeLength = (maze: ReturnType<typeof generateMaze>) =>
+  distancesFrom(maze.cells, maze.start)[maze.goal.y][maze.goal.x];
+
+describe('Placement - Strategies', () => {
+  it('should use opposite corners by default', () => {
+    const maze = generateMaze(20000, 6, 9, 10);
+
+    expect(maze.start).toEqual({ x: 0, y: 0 });
+    expect(maze.goal).toEqual({ x: 5, y: 8 });
+  });
+
+  it('should find the longest route for farthest placement', () => {
+    const maze = generateMaze(20000, 7, 7, 0, { placement: 'farthest' });
+
+    // Brute force: longest route between any two cells
+    const longest = Math.max(
+      ...maze.cells.flat().map((cell) => Math.max(...distancesFrom(maze.cells, cell).flat()))
+    );
+    expect(routeLength(maze)).toBe(longest);
+  });
+
+  it('should keep random placements at least the minimum distance apart', () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const maze = generateMaze(seed, 8, 8, 0, { placement: 'random', minGoalDistance: 12 });
+      expect(routeLength(maze)).toBeGreaterThanOrEqual(12);
+    }
+  });
+
+  it('should settle for the farthest cell when nothing is far enough', () => {
+    const maze = generateMaze(3, 4, 4, 0, { placement: 'random', minGoalDistance: 1000 });
+    const distances = distancesFrom(maze.cells, maze.start);
+
+    expect(routeLength(maze)).toBe(Math.max(...distances.flat()));
+  });
+
+  it('should place the same start and goal for the same seed', () => {
+    const options = { placement: 'random' as const };
+    const a = generateMaze(77, 8, 10, 12, options);
+    const b = generateMaze(77, 8, 10, 12, options);
+
+    expect(a.start).toEqual(b.start);
+    expect(a.goal).toEqual(b.goal);
+  });
+
+  it('should keep holes off the start and goal', () => {
+    for (let seed = 1; seed <= 10; seed++) {
+      const maze = generateMaze(seed, 6, 6, 10, { placement: 'random' });
+      for (const hole of maze.holes) {
+        expect(hole).not.toMatchObject(maze.start);
+        expect(hole).not.toMatchObject({ x: maze.goal.x, y: maze.goal.y });
+      }
+    }
+  });
+});
+
+describe('Placement - Distances', () => {
+  it('should mark walled-off cells unreachable', () => {
+    const cells = createGrid(3, 1);
+    cells[0][0].walls.east = false;
+    cells[0][1].walls.west = false;
+
+    expect(distancesFrom(cells, { x: 0, y: 0 })).toEqual([[0, 1, -1]]);
+  });
+
+  it('should not touch the random stream for corners', () => {
+    const rng = seedRNG(5);
+    placeStartAndGoal(createGrid(4, 4), rng, 'corners');
+
+    expect(rng.next()).toBe(seedRNG(5).next());
+  });
+});
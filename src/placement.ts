@@ -0,0 +1,95 @@
+import type { Cell, Checkpoint, Direction } from './maze';
+import { RNG } from './utils';
+import { DIRECTIONS } from './analysis';
+
+/**
+ * corners: start top-left, goal bottom-right
+ * farthest: the two cells with the longest route between them
+ * random: anywhere, as long as the goal is at least a minimum route length away
+ */
+export type PlacementStrategy = 'corners' | 'farthest' | 'random';
+
+export const PLACEMENT_STRATEGIES: PlacementStrategy[] = ['corners', 'farthest', 'random'];
+
+export interface Placement {
+  start: Checkpoint;
+  goal: Checkpoint;
+}
+
+/**
+ * Pick the start and goal cells of a carved grid. Corners uses no
+ * randomness, so boards placed that way match older ones exactly.
+ *
+ * `minDistance` (random only) is in cells along the route; it defaults to
+ * half the grid's width plus height and is relaxed to the farthest cell
+ * from the start when nothing is that far.
+ */
+export function placeStartAndGoal(
+  cells: Cell[][],
+  rng: RNG,
+  strategy: PlacementStrategy = 'corners',
+  minDistance?: number
+): Placement {
+  const height = cells.length;
+  const width = cells[0].length;
+
+  switch (strategy) {
+    case 'corners':
+      return { start: { x: 0, y: 0 }, goal: { x: width - 1, y: height - 1 } };
+
+    case 'farthest': {
+      // Two sweeps: the farthest cell from anywhere is one end of the longest route
+      const start = farthestFrom(cells, { x: 0, y: 0 });
+      return { start, goal: farthestFrom(cells, start) };
+    }
+
+    case 'random': {
+      const start = { x: rng.nextInt(width), y: rng.nextInt(height) };
+      const distances = distancesFrom(cells, start);
+      const wanted = minDistance ?? Math.floor((width + height) / 2);
+      const far = cells.flat().filter((cell) => distances[cell.y][cell.x] >= wanted);
+
+      if (far.length === 0) return { start, goal: farthestFrom(cells, start) };
+      const goal = far[rng.nextInt(far.length)];
+      return { start, goal: { x: goal.x, y: goal.y } };
+    }
+  }
+}
+
+/**
+ * Route length in cells from `from` to every cell (breadth-first), -1 where
+ * there is no way through
+ */
+export function distancesFrom(cells: Cell[][], from: Checkpoint): number[][] {
+  const distances = cells.map((row) => row.map(() => -1));
+  distances[from.y][from.x] = 0;
+  const queue: Checkpoint[] = [from];
+
+  for (let i = 0; i < queue.length; i++) {
+    const { x, y } = queue[i];
+    for (const [side, { dx, dy }] of Object.entries(DIRECTIONS)) {
+      if (cells[y][x].walls[side as Direction]) continue;
+      const nx = x + dx;
+      const ny = y + dy;
+      if (distances[ny]?.[nx] !== -1) continue;
+
+      distances[ny][nx] = distances[y][x] + 1;
+      queue.push({ x: nx, y: ny });
+    }
+  }
+
+  return distances;
+}
+
+/**
+ * Reachable cell with the longest route from `from` (first found on ties)
+ */
+function farthestFrom(cells: Cell[][], from: Checkpoint): Checkpoint {
+  const distances = distancesFrom(cells, from);
+  let best = from;
+
+  for (const cell of cells.flat()) {
+    if (distances[cell.y][cell.x] > distances[best.y][best.x]) best = { x: cell.x, y: cell.y };
+  }
+  return best;
+}
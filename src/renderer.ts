@@ -1,12 +1,40 @@
-import { Maze } from './maze';
-import { Ball, Config, InputState } from './physics';
+import { Cell, Maze } from './maze';
+import { DIRECTIONS, Point } from './analysis';
+import { BUMPER_RADIUS, Ball, Config, InputState } from './physics';
+import { isDoorClosed } from './tiles';
+import { Stats } from './storage';
+import { formatTime } from './utils';
+import { RunPhase } from './run-state';
+import { formatCountdown } from './schedule';
 
-interface RenderConfig extends Config {
+/**
+ * What the win screen shows about the finished run
+ */
+export interface WinSummary {
+  timeMs: number;
+  resets: number;
+  stats: Stats | null; // Null for runs that don't count (archive, practice)
+}
+
+/**
+ * Run status drawn over the board
+ */
+export interface Hud {
+  phase: RunPhase;
+  timeMs: number; // Elapsed play time
+  resets: number;
+  countdown: number; // Seconds left while counting in
+  message: string | null; // Short-lived callout (oof, checkpoint...)
+  nextMazeMs: number; // Until the next daily maze goes live, 0 once it has
+}
+
+export interface RenderConfig extends Config {
   WALL_COLOR: string;
   BG_COLOR: string;
   HOLE_COLOR: string;
   GOAL_COLOR: string;
   BALL_COLOR: string;
+  CHECKPOINT_COLOR: string;
 }
 
 /**
@@ -15,12 +43,15 @@ interface RenderConfig extends Config {
 export function render(
   ctx: CanvasRenderingContext2D,
   maze: Maze,
-  ball: Ball,
+  balls: Ball[],
   input: InputState,
   config: RenderConfig,
   cellSize: number,
-  won: boolean,
-  message: string | null
+  hud: Hud,
+  summary: WinSummary | null = null,
+  fallProgress: number[] = [], // Per ball: 0 on the board, 1 once it has dropped out of sight
+  time = 0, // Seconds into the run, for door timing
+  ghosts: Point[] = [] // Ghost balls to race (canvas pixels)
 ) {
   const width = ctx.canvas.width;
   const height = ctx.canvas.height;
@@ -31,17 +62,177 @@ export function render(
   const rotateY = input.tiltX * maxTilt;
   ctx.canvas.style.transform = `rotateX(${rotateX}deg) rotateY(${rotateY}deg)`;
 
+  renderBoard(ctx, maze, balls, config, cellSize, fallProgress, time, ghosts);
+
+  // Draw tilt debug indicator
+  ctx.fillStyle = '#fff';
+  // ctx.font = '14px monospace';
+  // ctx.fillText(`Tilt X: ${input.tiltX.toFixed(2)} | Y: ${input.tiltY.toFixed(2)}`, 10, 20);
+
+  // Draw crosshair showing tilt direction
+  const crosshairX = width - 60;
+  const crosshairY = 60;
+  const crosshairSize = 40;
+
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.arc(crosshairX, crosshairY, crosshairSize / 2, 0, Math.PI * 2);
+  ctx.stroke();
+
+  ctx.strokeStyle = '#fff';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(crosshairX, crosshairY);
+  ctx.lineTo(
+    crosshairX + input.tiltX * crosshairSize / 2,
+    crosshairY + input.tiltY * crosshairSize / 2
+  );
+  ctx.stroke();
+
+  ctx.fillStyle = '#f44';
+  ctx.beginPath();
+  ctx.arc(
+    crosshairX + input.tiltX * crosshairSize / 2,
+    crosshairY + input.tiltY * crosshairSize / 2,
+    4,
+    0,
+    Math.PI * 2
+  );
+  ctx.fill();
+
+  const displayWidth = ctx.canvas.style.width ? parseFloat(ctx.canvas.style.width) : width;
+  const displayHeight = ctx.canvas.style.height ? parseFloat(ctx.canvas.style.height) : height;
+  const centerX = displayWidth / 2;
+  const centerY = displayHeight / 2;
+  const won = hud.phase === 'won';
+  const message = statusText(hud);
+
+  if (hud.phase !== 'ready') drawTimer(ctx, hud);
+
+  // Message display (win, countdown, pause or oof)
+  if (won || message) {
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    if (won && summary) {
+      ctx.fillRect(0, 0, displayWidth, displayHeight);
+    } else {
+      ctx.fillRect(0, centerY - 60, displayWidth, 120);
+    }
+
+    ctx.textAlign = 'center';
+
+    if (won && summary) {
+      drawWinSummary(ctx, summary, centerX, centerY, displayWidth, nextMazeText(hud));
+    } else if (won) {
+      ctx.fillStyle = '#2d5';
+      ctx.font = 'bold 48px sans-serif';
+      ctx.fillText('You Won!', centerX, centerY);
+
+      ctx.fillStyle = '#fff';
+      ctx.font = '20px sans-serif';
+      ctx.fillText(nextMazeText(hud), centerX, centerY + 40);
+    } else if (message) {
+      ctx.fillStyle = hud.message ? '#f44' : '#fff';
+      ctx.font = 'bold 48px sans-serif';
+      ctx.fillText(message, centerX, centerY);
+    }
+
+    ctx.textAlign = 'left';
+  }
+}
+
+/**
+ * Banner text for the run phase, or the current callout while playing
+ */
+function statusText(hud: Hud): string | null {
+  switch (hud.phase) {
+    case 'ready':
+      return 'Tilt to start';
+    case 'countdown':
+      return String(Math.ceil(hud.countdown));
+    case 'paused':
+      return 'Paused · tilt to resume';
+    default:
+      return hud.message;
+  }
+}
 
+/**
+ * Live countdown to the next daily maze for the win screen
+ */
+function nextMazeText(hud: Hud): string {
+  return hud.nextMazeMs > 0 ? `Next maze in ${formatCountdown(hud.nextMazeMs)}` : 'A new maze is out · press R to play it';
+}
+
+/**
+ * Elapsed time and resets in the top-left corner
+ */
+function drawTimer(ctx: CanvasRenderingContext2D, hud: Hud) {
+  const oofs = hud.resets === 1 ? '1 oof' : `${hud.resets} oofs`;
+  const text = `${formatTime(hud.timeMs)} · ${oofs}`;
+
+  ctx.font = 'bold 16px sans-serif';
+  const textWidth = ctx.measureText(text).width;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+  ctx.fillRect(8, 8, textWidth + 16, 26);
+
+  ctx.fillStyle = '#fff';
+  ctx.fillText(text, 16, 27);
+}
+
+/**
+ * Draw the maze, holes and balls (no HUD or overlays)
+ */
+function renderBoard(
+  ctx: CanvasRenderingContext2D,
+  maze: Maze,
+  balls: Ball[],
+  config: RenderConfig,
+  cellSize: number,
+  fallProgress: number[] = [],
+  time = 0,
+  ghosts: Point[] = []
+) {
   // Clear canvas
   ctx.fillStyle = config.BG_COLOR;
-  ctx.fillRect(0, 0, width, height);
+  ctx.fillRect(0, 0, maze.width * cellSize, maze.height * cellSize);
+
+  // Draw checkpoint tiles under everything else
+  ctx.fillStyle = config.CHECKPOINT_COLOR;
+  for (const checkpoint of maze.checkpoints ?? []) {
+    const inset = cellSize * 0.1;
+    ctx.fillRect(
+      checkpoint.x * cellSize + inset,
+      checkpoint.y * cellSize + inset,
+      cellSize - inset * 2,
+      cellSize - inset * 2
+    );
+  }
+
+  // Draw floor tiles, then walls, then gates, doors and bumpers on top
+  for (const cell of maze.cells.flat()) drawFloorTile(ctx, cell, cellSize);
+
+  // Ring marking where the ball starts
+  ctx.strokeStyle = config.BALL_COLOR;
+  ctx.lineWidth = 2;
+  ctx.globalAlpha = 0.4;
+  ctx.beginPath();
+  ctx.arc(
+    (maze.start.x + 0.5) * cellSize,
+    (maze.start.y + 0.5) * cellSize,
+    cellSize * config.BALL_RADIUS_RATIO,
+    0,
+    Math.PI * 2
+  );
+  ctx.stroke();
+  ctx.globalAlpha = 1;
 
   // Draw maze walls
   ctx.strokeStyle = config.WALL_COLOR;
   ctx.lineWidth = 3;
 
-  for (let y = 0; y < maze.size; y++) {
-    for (let x = 0; x < maze.size; x++) {
+  for (let y = 0; y < maze.height; y++) {
+    for (let x = 0; x < maze.width; x++) {
       const cell = maze.cells[y][x];
       const cellX = x * cellSize;
       const cellY = y * cellSize;
@@ -69,6 +260,8 @@ export function render(
     }
   }
 
+  for (const cell of maze.cells.flat()) drawFixture(ctx, cell, config, cellSize, time);
+
   // Draw holes
   const holeRadius = cellSize * config.HOLE_RADIUS_RATIO;
   ctx.fillStyle = config.HOLE_COLOR;
@@ -92,14 +285,149 @@ export function render(
   ctx.arc(goalX, goalY, goalRadius, 0, Math.PI * 2);
   ctx.fill();
 
-  // Draw ball
-  const ballRadius = cellSize * config.BALL_RADIUS_RATIO;
+  ghosts.forEach((ghost) => drawGhost(ctx, ghost, config, cellSize));
+  balls.forEach((ball, i) => drawBall(ctx, ball, config, cellSize, fallProgress[i] ?? 0));
+}
+
+/**
+ * Draw a level being edited: the board itself, with faint cell lines so
+ * open edges can be found
+ */
+export function renderEditor(ctx: CanvasRenderingContext2D, maze: Maze, config: RenderConfig, cellSize: number) {
+  ctx.canvas.style.transform = 'none';
+  renderBoard(ctx, maze, [], config, cellSize);
 
-  // Ball shadow for depth
-  ctx.fillStyle = 'rgba(0, 0, 0, 0.3)';
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.08)';
+  ctx.lineWidth = 1;
   ctx.beginPath();
-  ctx.arc(ball.x + 2, ball.y + 2, ballRadius, 0, Math.PI * 2);
-  ctx.fill();
+  for (let x = 1; x < maze.width; x++) {
+    ctx.moveTo(x * cellSize, 0);
+    ctx.lineTo(x * cellSize, maze.height * cellSize);
+  }
+  for (let y = 1; y < maze.height; y++) {
+    ctx.moveTo(0, y * cellSize);
+    ctx.lineTo(maze.width * cellSize, y * cellSize);
+  }
+  ctx.stroke();
+}
+
+/**
+ * Draw a tile that changes how the floor behaves: ice, mud or a slope
+ */
+function drawFloorTile(ctx: CanvasRenderingContext2D, cell: Cell, cellSize: number) {
+  const tile = cell.tile;
+  if (!tile) return;
+
+  const cellX = cell.x * cellSize;
+  const cellY = cell.y * cellSize;
+
+  if (tile.type === 'ice' || tile.type === 'mud') {
+    ctx.fillStyle = tile.type === 'ice' ? '#d6f0fa' : '#9c7a55';
+    ctx.fillRect(cellX, cellY, cellSize, cellSize);
+  } else if (tile.type === 'slope') {
+    // Arrow pointing downhill
+    const { dx, dy } = DIRECTIONS[tile.direction];
+    const centerX = cellX + cellSize / 2;
+    const centerY = cellY + cellSize / 2;
+    const length = cellSize * 0.3;
+    const tipX = centerX + dx * length;
+    const tipY = centerY + dy * length;
+
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.25)';
+    ctx.lineWidth = Math.max(1, cellSize * 0.06);
+    ctx.beginPath();
+    ctx.moveTo(centerX - dx * length, centerY - dy * length);
+    ctx.lineTo(tipX, tipY);
+    ctx.moveTo(tipX - dx * length * 0.5 - dy * length * 0.5, tipY - dy * length * 0.5 - dx * length * 0.5);
+    ctx.lineTo(tipX, tipY);
+    ctx.lineTo(tipX - dx * length * 0.5 + dy * length * 0.5, tipY - dy * length * 0.5 + dx * length * 0.5);
+    ctx.stroke();
+  }
+}
+
+/**
+ * Draw a tile that stands above the floor: gate, door or bumper
+ */
+function drawFixture(
+  ctx: CanvasRenderingContext2D,
+  cell: Cell,
+  config: RenderConfig,
+  cellSize: number,
+  time: number
+) {
+  const tile = cell.tile;
+  if (!tile) return;
+
+  const centerX = (cell.x + 0.5) * cellSize;
+  const centerY = (cell.y + 0.5) * cellSize;
+
+  if (tile.type === 'bumper') {
+    ctx.fillStyle = '#e0457b';
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, BUMPER_RADIUS * cellSize, 0, Math.PI * 2);
+    ctx.fill();
+    return;
+  }
+
+  if (tile.type !== 'gate' && tile.type !== 'door') return;
+
+  // Both sit on one side of the cell
+  const { dx, dy } = DIRECTIONS[tile.side];
+  const edgeX = centerX + (dx * cellSize) / 2;
+  const edgeY = centerY + (dy * cellSize) / 2;
+  const halfX = (dy * cellSize) / 2;
+  const halfY = (dx * cellSize) / 2;
+
+  ctx.lineWidth = 3;
+  if (tile.type === 'door') {
+    ctx.strokeStyle = config.WALL_COLOR;
+    ctx.globalAlpha = isDoorClosed(tile, time) ? 1 : 0.2;
+  } else {
+    ctx.strokeStyle = '#e0a030';
+  }
+
+  ctx.beginPath();
+  ctx.moveTo(edgeX - halfX, edgeY - halfY);
+  ctx.lineTo(edgeX + halfX, edgeY + halfY);
+  ctx.stroke();
+  ctx.globalAlpha = 1;
+
+  if (tile.type === 'gate') {
+    // Chevron showing the way through
+    const size = cellSize * 0.12;
+    const tipX = edgeX - dx * size;
+    const tipY = edgeY - dy * size;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(tipX - dx * size - dy * size, tipY - dy * size - dx * size);
+    ctx.lineTo(tipX, tipY);
+    ctx.lineTo(tipX - dx * size + dy * size, tipY - dy * size + dx * size);
+    ctx.stroke();
+  }
+}
+
+/**
+ * Draw one ball, shrinking and fading as it drops into a hole
+ */
+function drawBall(
+  ctx: CanvasRenderingContext2D,
+  ball: Ball,
+  config: RenderConfig,
+  cellSize: number,
+  fallProgress: number
+) {
+  const ballRadius = cellSize * config.BALL_RADIUS_RATIO * (1 - 0.6 * fallProgress);
+  if (fallProgress >= 1) return;
+
+  // Ball shadow for depth (gone once it's below the board)
+  if (fallProgress === 0) {
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.3)';
+    ctx.beginPath();
+    ctx.arc(ball.x + 2, ball.y + 2, ballRadius, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  ctx.globalAlpha = 1 - fallProgress;
 
   // Ball main
   ctx.fillStyle = config.BALL_COLOR;
@@ -123,94 +451,194 @@ export function render(
   ctx.beginPath();
   ctx.arc(ball.x, ball.y, ballRadius, 0, Math.PI * 2);
   ctx.fill();
+  ctx.globalAlpha = 1;
+}
 
-  // Draw tilt debug indicator
-  ctx.fillStyle = '#fff';
-  // ctx.font = '14px monospace';
-  // ctx.fillText(`Tilt X: ${input.tiltX.toFixed(2)} | Y: ${input.tiltY.toFixed(2)}`, 10, 20);
-
-  // Draw crosshair showing tilt direction
-  const crosshairX = width - 60;
-  const crosshairY = 60;
-  const crosshairSize = 40;
+/**
+ * Draw a see-through ball following an earlier run, under the live balls
+ */
+function drawGhost(ctx: CanvasRenderingContext2D, ghost: Point, config: RenderConfig, cellSize: number) {
+  const ballRadius = cellSize * config.BALL_RADIUS_RATIO;
 
-  ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
-  ctx.lineWidth = 1;
+  ctx.globalAlpha = 0.3;
+  ctx.fillStyle = config.BALL_COLOR;
   ctx.beginPath();
-  ctx.arc(crosshairX, crosshairY, crosshairSize / 2, 0, Math.PI * 2);
+  ctx.arc(ghost.x, ghost.y, ballRadius, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.globalAlpha = 0.6;
+  ctx.strokeStyle = config.BALL_COLOR;
+  ctx.lineWidth = 1.5;
   ctx.stroke();
+  ctx.globalAlpha = 1;
+}
+
+/**
+ * Draw the path a ball took. Null entries break the line (hole resets).
+ */
+function drawTrail(ctx: CanvasRenderingContext2D, trail: (Point | null)[], cellSize: number) {
+  ctx.strokeStyle = 'rgba(34, 170, 85, 0.7)';
+  ctx.lineWidth = Math.max(2, cellSize * 0.08);
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
 
-  ctx.strokeStyle = '#fff';
-  ctx.lineWidth = 2;
   ctx.beginPath();
-  ctx.moveTo(crosshairX, crosshairY);
-  ctx.lineTo(
-    crosshairX + input.tiltX * crosshairSize / 2,
-    crosshairY + input.tiltY * crosshairSize / 2
-  );
+  let drawing = false;
+  for (const point of trail) {
+    if (!point) {
+      drawing = false;
+      continue;
+    }
+    if (drawing) {
+      ctx.lineTo(point.x, point.y);
+    } else {
+      ctx.moveTo(point.x, point.y);
+      drawing = true;
+    }
+  }
   ctx.stroke();
+}
 
-  ctx.fillStyle = '#f44';
-  ctx.beginPath();
-  ctx.arc(
-    crosshairX + input.tiltX * crosshairSize / 2,
-    crosshairY + input.tiltY * crosshairSize / 2,
-    4,
-    0,
-    Math.PI * 2
-  );
-  ctx.fill();
+/**
+ * Render the finished board with each ball's trail to a standalone image
+ */
+export function renderSnapshot(
+  maze: Maze,
+  balls: Ball[],
+  trails: (Point | null)[][],
+  config: RenderConfig,
+  cellSize: number
+): HTMLCanvasElement {
+  const dpr = window.devicePixelRatio || 1;
+  const canvas = document.createElement('canvas');
+  canvas.width = maze.width * cellSize * dpr;
+  canvas.height = maze.height * cellSize * dpr;
 
-  // Message display (win or oof)
-  if (won || message) {
-    const displayWidth = ctx.canvas.style.width ? parseFloat(ctx.canvas.style.width) : width;
-    const displayHeight = ctx.canvas.style.height ? parseFloat(ctx.canvas.style.height) : height;
-    const centerX = displayWidth / 2;
-    const centerY = displayHeight / 2;
+  const ctx = canvas.getContext('2d')!;
+  ctx.scale(dpr, dpr);
+  renderBoard(ctx, maze, balls, config, cellSize);
+  trails.forEach((trail) => drawTrail(ctx, trail, cellSize));
 
-    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
-    ctx.fillRect(0, centerY - 60, displayWidth, 120);
+  return canvas;
+}
 
-    ctx.textAlign = 'center';
+/**
+ * Win screen with streaks, times and the reset histogram
+ */
+function drawWinSummary(
+  ctx: CanvasRenderingContext2D,
+  summary: WinSummary,
+  centerX: number,
+  centerY: number,
+  displayWidth: number,
+  footer: string
+) {
+  const { stats } = summary;
+  let y = stats ? centerY - 160 : centerY - 30;
 
-    if (won) {
-      ctx.fillStyle = '#2d5';
-      ctx.font = 'bold 48px sans-serif';
-      ctx.fillText('You Won!', centerX, centerY);
+  ctx.fillStyle = '#2d5';
+  ctx.font = 'bold 40px sans-serif';
+  ctx.fillText('You Won!', centerX, y);
+  y += 28;
 
-      ctx.fillStyle = '#fff';
-      ctx.font = '20px sans-serif';
-      ctx.fillText("Tomorrow's maze at midnight UTC", centerX, centerY + 40);
-    } else if (message) {
-      ctx.fillStyle = '#f44';
-      ctx.font = 'bold 48px sans-serif';
-      ctx.fillText(message, centerX, centerY);
-    }
+  ctx.fillStyle = '#fff';
+  ctx.font = '18px sans-serif';
+  const oofs = summary.resets === 1 ? '1 oof' : `${summary.resets} oofs`;
+  ctx.fillText(`${formatTime(summary.timeMs)} with ${oofs}`, centerX, y);
+  y += 40;
+
+  if (!stats) {
+    ctx.fillStyle = '#aaa';
+    ctx.font = '16px sans-serif';
+    ctx.fillText("Doesn't count toward your stats", centerX, y);
+    return;
+  }
 
+  // Headline numbers
+  const columns = [
+    { value: String(stats.played), label: 'Played' },
+    { value: String(stats.currentStreak), label: 'Streak' },
+    { value: String(stats.maxStreak), label: 'Max streak' },
+    { value: stats.bestTimeMs === null ? '-' : formatTime(stats.bestTimeMs), label: 'Best' },
+  ];
+  const columnWidth = Math.min(displayWidth / columns.length, 120);
+  columns.forEach((column, i) => {
+    const x = centerX + (i - (columns.length - 1) / 2) * columnWidth;
+    ctx.fillStyle = '#fff';
+    ctx.font = 'bold 24px sans-serif';
+    ctx.fillText(column.value, x, y);
+    ctx.fillStyle = '#aaa';
+    ctx.font = '12px sans-serif';
+    ctx.fillText(column.label, x, y + 18);
+  });
+  y += 50;
+
+  // Reset distribution, Wordle style
+  ctx.fillStyle = '#fff';
+  ctx.font = 'bold 16px sans-serif';
+  ctx.fillText('Oofs per solve', centerX, y);
+  y += 12;
+
+  const maxCount = Math.max(1, ...stats.histogram);
+  const barMaxWidth = Math.min(displayWidth * 0.6, 300);
+  const left = centerX - barMaxWidth / 2;
+  ctx.textAlign = 'left';
+  stats.histogram.forEach((count, resets) => {
+    const label = resets === stats.histogram.length - 1 ? `${resets}+` : String(resets);
+    const width = Math.max(24, (count / maxCount) * barMaxWidth);
+
+    ctx.fillStyle = '#fff';
+    ctx.font = '14px sans-serif';
+    ctx.fillText(label, left - 28, y + 15);
+
+    ctx.fillStyle = count > 0 ? '#2d5' : '#555';
+    ctx.fillRect(left, y, width, 20);
+
+    ctx.fillStyle = '#fff';
+    ctx.textAlign = 'right';
+    ctx.fillText(String(count), left + width - 6, y + 15);
     ctx.textAlign = 'left';
-  }
+    y += 24;
+  });
+  ctx.textAlign = 'center';
+
+  ctx.fillStyle = '#fff';
+  ctx.font = '16px sans-serif';
+  ctx.fillText(footer, centerX, y + 24);
 }
 
 /**
  * Setup canvas with proper dimensions and HiDPI support
  */
-export function setupCanvas(canvas: HTMLCanvasElement, size: number): number {
+export function setupCanvas(canvas: HTMLCanvasElement, width: number, height: number): number {
   const dpr = window.devicePixelRatio || 1;
 
   // Account for heading and instructions (roughly 80px on mobile, 100px on desktop)
   const reservedHeight = 100;
   const availableHeight = window.innerHeight - reservedHeight;
-  const maxSize = Math.min(window.innerWidth * 0.95, availableHeight * 0.95);
+  const maxWidth = Math.min(window.innerWidth * 0.95, 800);
+  const maxHeight = Math.min(availableHeight * 0.95, 800);
 
-  const displaySize = Math.min(maxSize, 800);
-  canvas.style.width = `${displaySize}px`;
-  canvas.style.height = `${displaySize}px`;
+  // Largest square cells that fit the grid in both directions
+  const cellSize = Math.min(maxWidth / width, maxHeight / height);
+  const displayWidth = cellSize * width;
+  const displayHeight = cellSize * height;
 
-  canvas.width = displaySize * dpr;
-  canvas.height = displaySize * dpr;
+  canvas.style.width = `${displayWidth}px`;
+  canvas.style.height = `${displayHeight}px`;
+
+  canvas.width = displayWidth * dpr;
+  canvas.height = displayHeight * dpr;
 
   const ctx = canvas.getContext('2d')!;
   ctx.scale(dpr, dpr);
 
-  return displaySize / size;
+  return cellSize;
+}
+
+/**
+ * Whether the viewport is wider than it is tall (after the heading)
+ */
+export function isLandscapeViewport(): boolean {
+  return window.innerWidth > window.innerHeight - 100;
 }
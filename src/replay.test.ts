@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { InputState } from './physics';
+import { LevelConfig, buildLevel } from './level';
+import { createSimulation, stepSimulation } from './simulation';
+import {
+  createRecorder,
+  createReplayPlayer,
+  deserializeReplay,
+  playReplay,
+  quantizeInput,
+  serializeReplay,
+} from './replay';
+import { GENERATOR_VERSION } from './seed';
+
+const testConfig: LevelConfig = {
+  GRID_WIDTH: 8,
+  GRID_HEIGHT: 8,
+  GRAVITY: 1200,
+  FRICTION: 0.98,
+  BALL_RADIUS_RATIO: 0.3,
+  HOLE_RADIUS_RATIO: 0.2,
+  GOAL_RADIUS_RATIO: 0.3,
+  HOLE_COUNT: 16,
+};
+
+// Wobbly pseudo-player input, deliberately off the quantization grid
+const rawInputForTick = (tick: number): InputState => ({
+  tiltX: Math.sin(tick / 37) * 0.93,
+  tiltY: Math.cos(tick / 53) * 0.71,
+});
+
+const recordRun = (seed: number, ticks: number) => {
+  const sim = createSimulation(buildLevel(seed, testConfig), testConfig);
+  const recorder = createRecorder(seed, testConfig);
+
+  while (sim.tick < ticks && !sim.won) {
+    const input = quantizeInput(rawInputForTick(sim.tick));
+    recorder.record(sim.tick, input);
+    stepSimulation(sim, input);
+  }
+
+  return { sim, replay: recorder.finish(sim.tick) };
+};
+
+describe('Replay - Recording', () => {
+  it('should only store input changes', () => {
+    const recorder = createRecorder(1, testConfig);
+    recorder.record(0, { tiltX: 0, tiltY: 0 });
+    recorder.record(1, { tiltX: 0, tiltY: 0 });
+    recorder.record(2, { tiltX: 1, tiltY: 0 });
+    recorder.record(3, { tiltX: 1, tiltY: 0 });
+
+    const replay = recorder.finish(4);
+
+    expect(replay.inputs).toEqual([
+      { tick: 0, tiltX: 0, tiltY: 0 },
+      { tick: 2, tiltX: 1, tiltY: 0 },
+    ]);
+    expect(replay.ticks).toBe(4);
+  });
+
+  it('should not keep render settings in the stored config', () => {
+    const recorder = createRecorder(1, { ...testConfig, WALL_COLOR: '#fff' } as LevelConfig);
+    expect(recorder.finish(0).config).toEqual({ ...testConfig, GENERATOR_VERSION: 1 });
+  });
+
+  it('should rebuild a re-rolled board from its pinned config', () => {
+    const config = { ...testConfig, MIN_CLEARANCE: 0.2 };
+
+    for (let seed = 20740; seed < 20760; seed++) {
+      const replay = createRecorder(seed, config).finish(0);
+      expect(buildLevel(seed, replay.config)).toEqual(buildLevel(seed, config));
+    }
+  });
+
+  it('should pin the generator version the board was built with', () => {
+    expect(createRecorder(30000, testConfig).finish(0).config.GENERATOR_VERSION).toBe(GENERATOR_VERSION);
+    expect(createRecorder(30000, { ...testConfig, GENERATOR_VERSION: 1 }).finish(0).config.GENERATOR_VERSION).toBe(1);
+  });
+});
+
+describe('Replay - Playback', () => {
+  it('should hold each input until the next change', () => {
+    const player = createReplayPlayer({
+      version: 1,
+      seed: 1,
+      config: testConfig,
+      ticks: 10,
+      inputs: [
+        { tick: 2, tiltX: 1, tiltY: 0 },
+        { tick: 5, tiltX: 0, tiltY: -1 },
+      ],
+    });
+
+    expect(player.inputAt(0)).toEqual({ tiltX: 0, tiltY: 0 });
+    expect(player.inputAt(3)).toEqual({ tiltX: 1, tiltY: 0 });
+    expect(player.inputAt(9)).toEqual({ tiltX: 0, tiltY: -1 });
+    expect(player.isFinished(10)).toBe(true);
+  });
+
+  it('should reproduce a recorded run exactly', () => {
+    const { sim, replay } = recordRun(20000, 900);
+    const replayed = playReplay(replay);
+
+    expect(replayed.tick).toBe(sim.tick);
+    expect(replayed.balls).toEqual(sim.balls);
+  });
+
+  it('should reproduce a run after a serialization round trip', () => {
+    const { sim, replay } = recordRun(20001, 900);
+    const restored = deserializeReplay(serializeReplay(replay));
+
+    expect(restored).toEqual(replay);
+    expect(playReplay(restored).balls).toEqual(sim.balls);
+  });
+
+  it('should produce a URL-safe string', () => {
+    const { replay } = recordRun(20002, 300);
+    expect(serializeReplay(replay)).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it('should reject a seed or length that is not a whole number', () => {
+    const { replay } = recordRun(20003, 10);
+
+    expect(() => deserializeReplay(serializeReplay({ ...replay, seed: 'x' as unknown as number }))).toThrow(
+      'Malformed replay seed or length'
+    );
+    expect(() => deserializeReplay(serializeReplay({ ...replay, ticks: 1.5 }))).toThrow('Malformed replay');
+  });
+
+  it('should reject settings out of range before anything is built', () => {
+    const { replay } = recordRun(20003, 10);
+    const huge = serializeReplay({ ...replay, config: { ...replay.config, GRID_WIDTH: 100000 } });
+    const unknown = serializeReplay({ ...replay, config: { ...replay.config, PLACEMENT: 'sideways' as never } });
+    const missing = serializeReplay({ ...replay, config: { ...replay.config, GRAVITY: undefined as never } });
+
+    expect(() => deserializeReplay(huge)).toThrow('GRID_WIDTH must be a whole number from 2 to 30');
+    expect(() => deserializeReplay(unknown)).toThrow('Unknown PLACEMENT');
+    expect(() => deserializeReplay(missing)).toThrow('GRAVITY must be a number');
+  });
+
+  it('should reject unknown versions', () => {
+    const { replay } = recordRun(20003, 10);
+    const encoded = serializeReplay({ ...replay, version: 99 });
+
+    expect(() => deserializeReplay(encoded)).toThrow('Unsupported replay version');
+  });
+});
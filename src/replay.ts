@@ -0,0 +1,253 @@
+import { InputState } from './physics';
+import { LevelConfig, buildLevel, pickLevelConfig } from './level';
+import { GENERATOR_VERSION, generatorVersionFor } from './seed';
+import { MAX_GRID_SIZE, MAX_TILES } from './params';
+import { GENERATORS } from './generators';
+import { PLACEMENT_STRATEGIES } from './placement';
+import { TILE_TYPES } from './tiles';
+import { Simulation, TickResult, createSimulation, stepSimulation } from './simulation';
+
+/** Bump when a physics change means old recordings no longer reproduce */
+export const REPLAY_VERSION = 2;
+
+/** Tilt is stored as a signed byte, so live input is snapped to the same grid */
+const INPUT_STEPS = 127;
+
+/**
+ * Input change: applies from `tick` until the next change
+ */
+export interface ReplayInput {
+  tick: number;
+  tiltX: number;
+  tiltY: number;
+}
+
+export interface Replay {
+  version: number;
+  seed: number;
+  config: LevelConfig;
+  ticks: number; // Total ticks simulated
+  inputs: ReplayInput[]; // Sorted by tick, only recorded when input changes
+}
+
+/**
+ * Snap input to the precision a replay can store. Live play must feed the
+ * quantized input to the simulation so playback is bit-for-bit identical.
+ */
+export function quantizeInput(input: InputState): InputState {
+  return {
+    tiltX: Math.round(clamp(input.tiltX, -1, 1) * INPUT_STEPS) / INPUT_STEPS,
+    tiltY: Math.round(clamp(input.tiltY, -1, 1) * INPUT_STEPS) / INPUT_STEPS,
+  };
+}
+
+/**
+ * Records the input applied to each tick of a run
+ */
+export function createRecorder(seed: number, config: LevelConfig) {
+  const inputs: ReplayInput[] = [];
+
+  return {
+    record(tick: number, input: InputState) {
+      const last = inputs[inputs.length - 1];
+      if (last && last.tiltX === input.tiltX && last.tiltY === input.tiltY) return;
+      inputs.push({ tick, tiltX: input.tiltX, tiltY: input.tiltY });
+    },
+
+    finish(ticks: number): Replay {
+      return {
+        version: REPLAY_VERSION,
+        seed,
+        // Pinned so the board is rebuilt the same even once newer generators go live
+        config: {
+          ...pickLevelConfig(config),
+          GENERATOR_VERSION: config.GENERATOR_VERSION ?? generatorVersionFor(seed),
+        },
+        ticks,
+        inputs: inputs.slice(),
+      };
+    },
+  };
+}
+
+/**
+ * Looks up the input for each tick of a replay. Ticks must be requested in
+ * increasing order, as the simulation does.
+ */
+export function createReplayPlayer(replay: Replay) {
+  let cursor = 0;
+  let current: InputState = { tiltX: 0, tiltY: 0 };
+
+  return {
+    inputAt(tick: number): InputState {
+      while (cursor < replay.inputs.length && replay.inputs[cursor].tick <= tick) {
+        const { tiltX, tiltY } = replay.inputs[cursor];
+        current = { tiltX, tiltY };
+        cursor++;
+      }
+      return current;
+    },
+
+    isFinished(tick: number): boolean {
+      return tick >= replay.ticks;
+    },
+  };
+}
+
+/**
+ * Run a replay headlessly from a freshly built maze
+ */
+export function playReplay(
+  replay: Replay,
+  onTick?: (result: TickResult, sim: Simulation) => void
+): Simulation {
+  const sim = createSimulation(buildLevel(replay.seed, replay.config), replay.config);
+  const player = createReplayPlayer(replay);
+
+  while (!sim.won && !player.isFinished(sim.tick)) {
+    const result = stepSimulation(sim, player.inputAt(sim.tick));
+    onTick?.(result, sim);
+  }
+
+  return sim;
+}
+
+/**
+ * Serialize to a compact URL-safe string. Inputs are delta-coded ticks
+ * and byte-sized tilts: [dTick, x, y, dTick, x, y, ...]
+ */
+export function serializeReplay(replay: Replay): string {
+  const packed: number[] = [];
+  let lastTick = 0;
+
+  for (const input of replay.inputs) {
+    packed.push(
+      input.tick - lastTick,
+      Math.round(input.tiltX * INPUT_STEPS),
+      Math.round(input.tiltY * INPUT_STEPS)
+    );
+    lastTick = input.tick;
+  }
+
+  const json = JSON.stringify({
+    v: replay.version,
+    s: replay.seed,
+    c: replay.config,
+    t: replay.ticks,
+    i: packed,
+  });
+
+  return btoa(json).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Parse a replay string, throwing if it is malformed or from an unknown version
+ */
+export function deserializeReplay(encoded: string): Replay {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const data = JSON.parse(atob(base64));
+
+  if (data.v !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${data.v}`);
+  }
+  if (!Array.isArray(data.i) || data.i.length % 3 !== 0) {
+    throw new Error('Malformed replay inputs');
+  }
+
+  if (!Number.isInteger(data.s) || !Number.isInteger(data.t) || data.t < 0) {
+    throw new Error('Malformed replay seed or length');
+  }
+  const issues = validateReplayConfig(data.c);
+  if (issues.length > 0) {
+    throw new Error(`Invalid replay settings: ${issues.join('; ')}`);
+  }
+
+  const inputs: ReplayInput[] = [];
+  let tick = 0;
+  for (let i = 0; i < data.i.length; i += 3) {
+    tick += data.i[i];
+    inputs.push({
+      tick,
+      tiltX: data.i[i + 1] / INPUT_STEPS,
+      tiltY: data.i[i + 2] / INPUT_STEPS,
+    });
+  }
+
+  return {
+    version: data.v,
+    seed: data.s,
+    config: data.c,
+    ticks: data.t,
+    inputs,
+  };
+}
+
+interface SettingBounds {
+  min: number;
+  max: number;
+  integer?: boolean;
+  required?: boolean; // Every replay has it
+}
+
+// Range of every numeric setting, so a crafted link can't ask for an enormous board or nonsense physics
+const CONFIG_BOUNDS: Partial<Record<keyof LevelConfig, SettingBounds>> = {
+  GRID_WIDTH: { min: 2, max: MAX_GRID_SIZE, integer: true, required: true },
+  GRID_HEIGHT: { min: 2, max: MAX_GRID_SIZE, integer: true, required: true },
+  GRAVITY: { min: 0, max: 10000, required: true },
+  FRICTION: { min: 0, max: 1, required: true },
+  BALL_RADIUS_RATIO: { min: 0.01, max: 0.5, required: true },
+  HOLE_RADIUS_RATIO: { min: 0.01, max: 0.5, required: true },
+  GOAL_RADIUS_RATIO: { min: 0.01, max: 0.5, required: true },
+  HOLE_COUNT: { min: 0, max: MAX_GRID_SIZE * MAX_GRID_SIZE, integer: true, required: true },
+  RESTITUTION: { min: 0, max: 1 },
+  HOLE_PULL: { min: 0, max: 10 },
+  SKIM_SPEED: { min: 0, max: 100 },
+  BALL_COUNT: { min: 1, max: 5, integer: true },
+  MIN_CLEARANCE: { min: 0, max: 1 },
+  BRAID: { min: 0, max: 1 },
+  CHECKPOINTS: { min: 0, max: 10, integer: true },
+  MIN_GOAL_DISTANCE: { min: 1, max: MAX_GRID_SIZE * MAX_GRID_SIZE, integer: true },
+  GENERATOR_VERSION: { min: 1, max: GENERATOR_VERSION, integer: true },
+};
+
+// Required settings present and every setting in range; returns a message per problem
+function validateReplayConfig(config: unknown): string[] {
+  if (typeof config !== 'object' || config === null) return ['Missing settings'];
+  const settings = config as Record<string, unknown>;
+  const issues: string[] = [];
+
+  for (const [key, { min, max, integer, required }] of Object.entries(CONFIG_BOUNDS)) {
+    const value = settings[key];
+    if (value === undefined && !required) continue;
+    if (typeof value !== 'number' || !(value >= min && value <= max) || (integer && !Number.isInteger(value))) {
+      issues.push(`${key} must be a ${integer ? 'whole number' : 'number'} from ${min} to ${max}`);
+    }
+  }
+
+  if (settings.GENERATOR !== undefined && !Object.keys(GENERATORS).includes(settings.GENERATOR as string)) {
+    issues.push('Unknown GENERATOR');
+  }
+  if (settings.PLACEMENT !== undefined && !(PLACEMENT_STRATEGIES as string[]).includes(settings.PLACEMENT as string)) {
+    issues.push('Unknown PLACEMENT');
+  }
+  if (settings.TRANSPOSE !== undefined && typeof settings.TRANSPOSE !== 'boolean') {
+    issues.push('TRANSPOSE must be true or false');
+  }
+  if (settings.TILES !== undefined) {
+    const tiles = settings.TILES;
+    const tilesOk =
+      typeof tiles === 'object' &&
+      tiles !== null &&
+      Object.entries(tiles).every(
+        ([type, count]) =>
+          (TILE_TYPES as string[]).includes(type) && Number.isInteger(count) && count >= 0 && count <= MAX_TILES
+      );
+    if (!tilesOk) issues.push(`TILES must give up to ${MAX_TILES} of each of ${TILE_TYPES.join(', ')}`);
+  }
+
+  return issues;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  COUNTDOWN_SECONDS,
+  MESSAGE_DURATION,
+  advanceCountdown,
+  createRunState,
+  currentMessage,
+  isRunning,
+  sendRunEvent,
+  showMessage,
+} from './run-state';
+
+const playing = () => {
+  const state = createRunState();
+  sendRunEvent(state, 'tilt');
+  advanceCountdown(state, COUNTDOWN_SECONDS);
+  return state;
+};
+
+describe('Run state - Starting', () => {
+  it('should wait for the first tilt', () => {
+    const state = createRunState();
+
+    expect(state.phase).toBe('ready');
+    expect(isRunning(state)).toBe(false);
+    expect(sendRunEvent(state, 'fell')).toBe(false);
+  });
+
+  it('should count in before releasing the ball', () => {
+    const state = createRunState();
+    sendRunEvent(state, 'tilt');
+
+    expect(state).toMatchObject({ phase: 'countdown', countdown: COUNTDOWN_SECONDS });
+
+    advanceCountdown(state, 1);
+    expect(state.countdown).toBe(COUNTDOWN_SECONDS - 1);
+    expect(isRunning(state)).toBe(false);
+
+    advanceCountdown(state, COUNTDOWN_SECONDS);
+    expect(state.phase).toBe('playing');
+    expect(isRunning(state)).toBe(true);
+  });
+});
+
+describe('Run state - Playing', () => {
+  it('should keep running while a ball falls and count the reset', () => {
+    const state = playing();
+
+    sendRunEvent(state, 'fell');
+    expect(state.phase).toBe('falling');
+    expect(isRunning(state)).toBe(true);
+
+    sendRunEvent(state, 'fell');
+    sendRunEvent(state, 'respawned');
+    expect(state.phase).toBe('playing');
+    expect(state.resets).toBe(2);
+  });
+
+  it('should pause and count in again on resume', () => {
+    const state = playing();
+
+    sendRunEvent(state, 'pause');
+    expect(state.phase).toBe('paused');
+    expect(isRunning(state)).toBe(false);
+
+    sendRunEvent(state, 'resume');
+    expect(state).toMatchObject({ phase: 'countdown', countdown: COUNTDOWN_SECONDS });
+  });
+
+  it('should not pause before the run has started or after it is won', () => {
+    const state = createRunState();
+    expect(sendRunEvent(state, 'pause')).toBe(false);
+
+    const won = playing();
+    sendRunEvent(won, 'won');
+    expect(sendRunEvent(won, 'pause')).toBe(false);
+    expect(won.phase).toBe('won');
+  });
+
+  it('should restart from any phase with a clean slate', () => {
+    const state = playing();
+    sendRunEvent(state, 'fell');
+    showMessage(state, 'oof', 0);
+    sendRunEvent(state, 'won');
+
+    sendRunEvent(state, 'restart');
+    expect(state).toEqual(createRunState());
+  });
+});
+
+describe('Run state - Messages', () => {
+  it('should show a callout for a short while', () => {
+    const state = playing();
+    showMessage(state, 'oof', 500);
+
+    expect(currentMessage(state, 500)).toBe('oof');
+    expect(currentMessage(state, 500 + MESSAGE_DURATION)).toBeNull();
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Where a run is up to:
+ * ready: board shown, waiting for the first tilt
+ * countdown: counting in before the ball is released
+ * playing: simulation running, timer going
+ * falling: a ball is dropping into a hole (timer still going)
+ * paused: stopped because the tab lost focus; resuming counts in again
+ * won: every ball is home
+ */
+export type RunPhase = 'ready' | 'countdown' | 'playing' | 'falling' | 'paused' | 'won';
+
+export type RunEvent = 'tilt' | 'go' | 'fell' | 'respawned' | 'won' | 'pause' | 'resume' | 'restart';
+
+export interface RunState {
+  phase: RunPhase;
+  countdown: number; // Seconds left before the ball is released
+  resets: number; // Falls into holes this run
+  message: string | null; // Short callout over the board (oof, checkpoint...)
+  messageUntil: number; // Time (ms) the message disappears
+}
+
+/** Seconds counted in before play starts or resumes */
+export const COUNTDOWN_SECONDS = 3;
+
+/** How long a callout stays up (ms) */
+export const MESSAGE_DURATION = 1000;
+
+/** Tilt needed to start the countdown, so resting a finger doesn't */
+export const START_TILT = 0.1;
+
+// Events each phase responds to; anything else is ignored
+const TRANSITIONS: Record<RunPhase, Partial<Record<RunEvent, RunPhase>>> = {
+  ready: { tilt: 'countdown', restart: 'ready' },
+  countdown: { go: 'playing', pause: 'paused', restart: 'ready' },
+  playing: { fell: 'falling', won: 'won', pause: 'paused', restart: 'ready' },
+  falling: { fell: 'falling', respawned: 'playing', won: 'won', pause: 'paused', restart: 'ready' },
+  paused: { resume: 'countdown', restart: 'ready' },
+  won: { restart: 'ready' },
+};
+
+/**
+ * Fresh run waiting for the first tilt
+ */
+export function createRunState(): RunState {
+  return { phase: 'ready', countdown: 0, resets: 0, message: null, messageUntil: 0 };
+}
+
+/**
+ * Apply an event. Returns true if the phase changed.
+ */
+export function sendRunEvent(state: RunState, event: RunEvent): boolean {
+  const next = TRANSITIONS[state.phase][event];
+  if (!next) return false;
+
+  if (event === 'restart') {
+    Object.assign(state, createRunState());
+    return true;
+  }
+  if (event === 'fell') state.resets++;
+  if (next === 'countdown') state.countdown = COUNTDOWN_SECONDS;
+
+  state.phase = next;
+  return true;
+}
+
+/**
+ * Count down by `dt` seconds, releasing the ball when it runs out
+ */
+export function advanceCountdown(state: RunState, dt: number) {
+  if (state.phase !== 'countdown') return;
+
+  state.countdown = Math.max(0, state.countdown - dt);
+  if (state.countdown === 0) sendRunEvent(state, 'go');
+}
+
+/**
+ * Whether the simulation should be stepping
+ */
+export function isRunning(state: RunState): boolean {
+  return state.phase === 'playing' || state.phase === 'falling';
+}
+
+/**
+ * Show a callout over the board until `now + MESSAGE_DURATION`
+ */
+export function showMessage(state: RunState, text: string, now: number) {
+  state.message = text;
+  state.messageUntil = now + MESSAGE_DURATION;
+}
+
+/**
+ * The callout to draw at `now`, if one is still up
+ */
+export function currentMessage(state: RunState, now: number): string | null {
+  return state.message && now < state.messageUntil ? state.message : null;
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  DAILY_SCHEDULE,
+  DailySchedule,
+  formatCountdown,
+  newestAcceptedDay,
+  nextRollover,
+  puzzleDay,
+  watchRollover,
+} from './schedule';
+import { dayToDate } from './storage';
+
+const at = (iso: string) => new Date(iso).getTime();
+
+const newYork: DailySchedule = { timeZone: 'America/New_York', rolloverMinutes: 0, skewToleranceMs: 0 };
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('Schedule - Puzzle day', () => {
+  it('should roll over at midnight UTC by default', () => {
+    expect(dayToDate(puzzleDay(at('2025-03-01T23:59:59.999Z')))).toBe('2025-03-01');
+    expect(dayToDate(puzzleDay(at('2025-03-02T00:00:00Z')))).toBe('2025-03-02');
+    expect(puzzleDay(at('2025-03-02T00:00:00Z'))).toBe(Math.floor(at('2025-03-02T00:00:00Z') / 86400000));
+  });
+
+  it('should follow the local date in another time zone', () => {
+    // 23:30 on 1 June in New York is already 2 June in UTC
+    expect(dayToDate(puzzleDay(at('2025-06-02T03:30:00Z'), newYork))).toBe('2025-06-01');
+    expect(dayToDate(puzzleDay(at('2025-06-02T04:00:00Z'), newYork))).toBe('2025-06-02');
+  });
+
+  it('should roll over at a configured time of day', () => {
+    const fourAm = { ...DAILY_SCHEDULE, rolloverMinutes: 4 * 60 };
+
+    expect(dayToDate(puzzleDay(at('2025-03-02T03:59:00Z'), fourAm))).toBe('2025-03-01');
+    expect(dayToDate(puzzleDay(at('2025-03-02T04:00:00Z'), fourAm))).toBe('2025-03-02');
+  });
+
+  it("should accept the next day's runs only within the skew tolerance", () => {
+    const justBefore = at('2025-03-01T23:58:00Z');
+    const early = at('2025-03-01T23:50:00Z');
+
+    expect(newestAcceptedDay(justBefore)).toBe(puzzleDay(justBefore) + 1);
+    expect(newestAcceptedDay(early)).toBe(puzzleDay(early));
+  });
+});
+
+describe('Schedule - Next rollover', () => {
+  it('should be the coming midnight UTC', () => {
+    expect(nextRollover(at('2025-03-01T15:20:00Z'))).toBe(at('2025-03-02T00:00:00Z'));
+    expect(nextRollover(at('2025-03-02T00:00:00Z'))).toBe(at('2025-03-03T00:00:00Z'));
+  });
+
+  it('should be local midnight in another time zone', () => {
+    expect(nextRollover(at('2025-06-01T12:00:00Z'), newYork)).toBe(at('2025-06-02T04:00:00Z'));
+  });
+
+  it('should allow for daylight saving starting overnight', () => {
+    // Clocks go forward in New York early on 9 March 2025, so the day after is an hour shorter
+    expect(nextRollover(at('2025-03-08T17:00:00Z'), newYork)).toBe(at('2025-03-09T05:00:00Z'));
+    expect(nextRollover(at('2025-03-09T17:00:00Z'), newYork)).toBe(at('2025-03-10T04:00:00Z'));
+  });
+});
+
+describe('Schedule - Watching for rollover', () => {
+  it('should report the new day once it goes live', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(at('2025-03-01T23:59:30Z'));
+    const onRollover = vi.fn();
+
+    const stop = watchRollover(puzzleDay(Date.now()), onRollover);
+    vi.advanceTimersByTime(29000);
+    expect(onRollover).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1000);
+    expect(onRollover).toHaveBeenCalledWith(puzzleDay(at('2025-03-02T00:00:00Z')));
+
+    vi.advanceTimersByTime(3600000);
+    expect(onRollover).toHaveBeenCalledTimes(1);
+    stop();
+  });
+
+  it('should ignore the clock going backwards', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(at('2025-03-02T00:00:30Z'));
+    const onRollover = vi.fn();
+
+    const stop = watchRollover(puzzleDay(Date.now()), onRollover);
+    vi.setSystemTime(at('2025-03-01T23:00:00Z'));
+    vi.advanceTimersByTime(120000);
+
+    expect(onRollover).not.toHaveBeenCalled();
+    stop();
+  });
+
+  it('should stop checking once stopped', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(at('2025-03-01T23:59:00Z'));
+    const onRollover = vi.fn();
+
+    watchRollover(puzzleDay(Date.now()), onRollover)();
+    vi.advanceTimersByTime(120000);
+
+    expect(onRollover).not.toHaveBeenCalled();
+  });
+});
+
+describe('Schedule - Countdown', () => {
+  it('should show hours only when needed', () => {
+    expect(formatCountdown(3 * 3600000 + 5 * 60000 + 9000)).toBe('3:05:09');
+    expect(formatCountdown(65000)).toBe('1:05');
+  });
+
+  it('should round partial seconds up and never go negative', () => {
+    expect(formatCountdown(1)).toBe('0:01');
+    expect(formatCountdown(-500)).toBe('0:00');
+  });
+});
@@ -0,0 +1,130 @@
+/** Length of a puzzle day (ms) */
+export const DAY_MS = 86400000;
+
+/** Longest the rollover watcher sleeps, so sleep/wake and clock changes are noticed */
+export const MAX_CHECK_INTERVAL = 60000;
+
+/**
+ * When each day's maze goes live. Every client and the leaderboard server
+ * must agree on this, or they'll disagree about which maze is today's.
+ */
+export interface DailySchedule {
+  timeZone: string; // IANA zone the rollover follows, e.g. 'UTC' or 'America/New_York'
+  rolloverMinutes: number; // Minutes after local midnight the new maze arrives
+  skewToleranceMs: number; // How fast a player's clock may run and still have its runs accepted
+}
+
+/**
+ * New maze at midnight UTC
+ */
+export const DAILY_SCHEDULE: DailySchedule = {
+  timeZone: 'UTC',
+  rolloverMinutes: 0,
+  skewToleranceMs: 5 * 60000,
+};
+
+// Formatting is the slow part of a time zone lookup, so keep one formatter per zone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Puzzle day (days since epoch, the daily seed) live at `now`. Its date is
+ * the calendar date in the schedule's time zone once the rollover is past.
+ */
+export function puzzleDay(now: number, schedule: DailySchedule = DAILY_SCHEDULE): number {
+  return Math.floor((wallClock(now, schedule.timeZone) - schedule.rolloverMinutes * 60000) / DAY_MS);
+}
+
+/**
+ * Newest day a run can belong to, allowing for clocks that run fast
+ */
+export function newestAcceptedDay(now: number, schedule: DailySchedule = DAILY_SCHEDULE): number {
+  return puzzleDay(now + schedule.skewToleranceMs, schedule);
+}
+
+/**
+ * When the next maze goes live (ms since epoch)
+ */
+export function nextRollover(now: number, schedule: DailySchedule = DAILY_SCHEDULE): number {
+  const target = (puzzleDay(now, schedule) + 1) * DAY_MS + schedule.rolloverMinutes * 60000;
+  const offset = (time: number) => wallClock(time, schedule.timeZone) - time;
+
+  // Second pass uses the offset at the rollover itself, in case daylight saving changes before then
+  const guess = target - offset(now);
+  return Math.max(now + 1, target - offset(guess));
+}
+
+/**
+ * Call `onRollover` with the new day whenever a maze goes live while the page
+ * is open. Background tabs have their timers throttled or frozen, so it also
+ * checks when the page becomes visible again. Returns a function that stops it.
+ */
+export function watchRollover(
+  day: number,
+  onRollover: (day: number) => void,
+  schedule: DailySchedule = DAILY_SCHEDULE
+): () => void {
+  let current = day;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const check = () => {
+    clearTimeout(timer);
+    const now = Date.now();
+    const today = puzzleDay(now, schedule);
+
+    // Only ever move forward, so a clock set back doesn't bring yesterday's maze back
+    if (today > current) {
+      current = today;
+      onRollover(today);
+    }
+    timer = setTimeout(check, Math.min(nextRollover(now, schedule) - now, MAX_CHECK_INTERVAL));
+  };
+
+  const onVisible = () => {
+    if (!document.hidden) check();
+  };
+  if (typeof document !== 'undefined') document.addEventListener('visibilitychange', onVisible);
+  check();
+
+  return () => {
+    clearTimeout(timer);
+    if (typeof document !== 'undefined') document.removeEventListener('visibilitychange', onVisible);
+  };
+}
+
+/**
+ * Format a wait as h:mm:ss (or m:ss under an hour)
+ */
+export function formatCountdown(ms: number): string {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = String(total % 60).padStart(2, '0');
+
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+// Local time in a zone as if it were UTC (ms), e.g. 09:00 in New York -> 09:00 UTC the same date
+function wallClock(now: number, timeZone: string): number {
+  if (timeZone === 'UTC') return now;
+
+  let format = formatters.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, format);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const { type, value } of format.formatToParts(now)) parts[type] = Number(value);
+  const millis = ((now % 1000) + 1000) % 1000;
+
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) + millis;
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  GENERATOR_VERSION,
+  LEGACY_GENERATOR_VERSION,
+  createStreams,
+  deriveSeed,
+  generatorVersionFor,
+  hashSeed,
+} from './seed';
+import { generateMaze } from './maze';
+import { seedRNG } from './utils';
+
+const RELEASE_DAY = 20746; // 2026-10-20, when version 2 went live
+
+// Bits that differ between two 32-bit numbers
+const bitsApart = (a: number, b: number) => {
+  let diff = (a ^ b) >>> 0;
+  let count = 0;
+  for (; diff; diff >>>= 1) count += diff & 1;
+  return count;
+};
+
+const draws = (rng: { next(): number }, count = 5) => Array.from({ length: count }, () => rng.next());
+
+describe('Seed - Hashing', () => {
+  it('should be deterministic and 32-bit', () => {
+    expect(hashSeed('abc')).toBe(hashSeed('abc'));
+    expect(Number.isInteger(hashSeed('abc'))).toBe(true);
+    expect(hashSeed('abc')).toBeGreaterThanOrEqual(0);
+    expect(hashSeed('abc')).toBeLessThan(2 ** 32);
+  });
+
+  it('should spread consecutive days far apart', () => {
+    const apart = [];
+    for (let day = RELEASE_DAY; day < RELEASE_DAY + 200; day++) {
+      apart.push(bitsApart(deriveSeed(day, 'walls'), deriveSeed(day + 1, 'walls')));
+    }
+    const average = apart.reduce((sum, bits) => sum + bits, 0) / apart.length;
+
+    // Unrelated numbers differ in 16 bits on average
+    expect(average).toBeGreaterThan(14);
+    expect(average).toBeLessThan(18);
+  });
+
+  it('should give each stream and version its own seed', () => {
+    const seeds = [
+      deriveSeed(RELEASE_DAY, 'walls'),
+      deriveSeed(RELEASE_DAY, 'placement'),
+      deriveSeed(RELEASE_DAY, 'holes'),
+      deriveSeed(RELEASE_DAY, 'tiles'),
+      deriveSeed(RELEASE_DAY, 'walls', GENERATOR_VERSION + 1),
+    ];
+    expect(new Set(seeds).size).toBe(seeds.length);
+  });
+});
+
+describe('Seed - Streams', () => {
+  it('should keep version 1 drawing walls, placement and holes from the raw seed', () => {
+    const streams = createStreams(20000, LEGACY_GENERATOR_VERSION);
+
+    expect(streams.walls).toBe(streams.holes);
+    expect(draws(streams.walls)).toEqual(draws(seedRNG(20000)));
+  });
+
+  it('should draw each stream independently from version 2', () => {
+    const streams = createStreams(RELEASE_DAY, 2);
+    const wallsAlone = draws(createStreams(RELEASE_DAY, 2).walls);
+
+    draws(streams.holes, 50);
+    expect(draws(streams.walls)).toEqual(wallsAlone);
+  });
+
+  it('should refuse unknown versions', () => {
+    expect(() => createStreams(1, 0)).toThrow('Unknown generator version: 0');
+    expect(() => createStreams(1, GENERATOR_VERSION + 1)).toThrow('Unknown generator version');
+  });
+});
+
+describe('Seed - Generator versions', () => {
+  it('should keep days before a release on the version they were played with', () => {
+    expect(generatorVersionFor(RELEASE_DAY - 1)).toBe(LEGACY_GENERATOR_VERSION);
+    expect(generatorVersionFor(RELEASE_DAY)).toBe(2);
+    expect(generatorVersionFor(RELEASE_DAY + 1000)).toBe(GENERATOR_VERSION);
+  });
+
+  it('should record the version on the maze and rebuild it the same', () => {
+    const legacy = generateMaze(RELEASE_DAY, 8, 8, 6, { version: LEGACY_GENERATOR_VERSION });
+
+    expect(legacy.generatorVersion).toBe(LEGACY_GENERATOR_VERSION);
+    expect(generateMaze(RELEASE_DAY, 8, 8, 6).generatorVersion).toBe(2);
+    expect(generateMaze(RELEASE_DAY, 8, 8, 6, { version: legacy.generatorVersion })).toEqual(legacy);
+  });
+
+  it('should not move the walls when the hole count changes', () => {
+    const few = generateMaze(RELEASE_DAY, 8, 8, 2);
+    const many = generateMaze(RELEASE_DAY, 8, 8, 12);
+
+    expect(many.cells).toEqual(few.cells);
+    expect(many.holes).not.toEqual(few.holes);
+  });
+});
@@ -0,0 +1,86 @@
+import { RNG, seedRNG } from './utils';
+
+/**
+ * 1: the seed fed straight to mulberry32, one stream shared by walls,
+ *    start/goal and holes (tiles on seed ^ LEGACY_TILE_SALT)
+ * 2: a hashed seed per stream, so the streams and consecutive days are unrelated
+ */
+export const GENERATOR_VERSION = 2;
+
+export const LEGACY_GENERATOR_VERSION = 1;
+
+/** Mixed into every derived seed, so other games using the same scheme get other mazes */
+export const SEED_SALT = 'ball-in-a-maze';
+
+/** Version 1's tile stream seed was the maze seed xor this */
+const LEGACY_TILE_SALT = 0x7113;
+
+/**
+ * Day (days since epoch) each generator version went live, oldest first.
+ * Append only: days already played must keep the version they had.
+ */
+const GENERATOR_RELEASES = [
+  { version: 1, day: -Infinity },
+  { version: 2, day: 20746 }, // 2026-10-20
+];
+
+/**
+ * Separate random sources for each part of a maze, so changing how one part
+ * is generated doesn't shift the others
+ */
+export type SeedStream = 'walls' | 'placement' | 'holes' | 'tiles';
+
+export type MazeStreams = Record<SeedStream, RNG>;
+
+/**
+ * Generator version for a seed: the one live on that day for daily seeds.
+ * Boards pin this in their config so later versions never change them.
+ */
+export function generatorVersionFor(seed: number): number {
+  return GENERATOR_RELEASES.reduce((version, release) => (seed >= release.day ? release.version : version), 1);
+}
+
+/**
+ * Well-mixed 32-bit hash of a string (FNV-1a, then MurmurHash3's finalizer
+ * so nearby inputs land far apart)
+ */
+export function hashSeed(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+/**
+ * Seed for one stream of one maze
+ */
+export function deriveSeed(seed: number, stream: SeedStream, version = GENERATOR_VERSION): number {
+  return hashSeed(`${SEED_SALT}:v${version}:${stream}:${seed}`);
+}
+
+/**
+ * Random streams for generating a maze with a given generator version
+ */
+export function createStreams(seed: number, version = GENERATOR_VERSION): MazeStreams {
+  if (!Number.isInteger(version) || version < LEGACY_GENERATOR_VERSION || version > GENERATOR_VERSION) {
+    throw new Error(`Unknown generator version: ${version}`);
+  }
+  if (version === LEGACY_GENERATOR_VERSION) {
+    const shared = seedRNG(seed);
+    return { walls: shared, placement: shared, holes: shared, tiles: seedRNG(seed ^ LEGACY_TILE_SALT) };
+  }
+
+  return {
+    walls: seedRNG(deriveSeed(seed, 'walls', version)),
+    placement: seedRNG(deriveSeed(seed, 'placement', version)),
+    holes: seedRNG(deriveSeed(seed, 'holes', version)),
+    tiles: seedRNG(deriveSeed(seed, 'tiles', version)),
+  };
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { generateMaze } from './maze';
+import { LAUNCH_DAY, buildMiniMap, buildShareText, puzzleNumber, visitedCells } from './share';
+
+const CELL = 100;
+const maze = generateMaze(12345, 8, 8, 0);
+
+// Centre of each cell along the top row, then down the right edge
+const trail = [
+  ...[0, 1, 2, 3].map((x) => ({ x: x * CELL + 50, y: 50 })),
+  null,
+  { x: 350, y: 150 },
+];
+
+describe('Share - Puzzle number', () => {
+  it('should number puzzles from launch day', () => {
+    expect(puzzleNumber(LAUNCH_DAY)).toBe(1);
+    expect(puzzleNumber(LAUNCH_DAY + 41)).toBe(42);
+  });
+});
+
+describe('Share - Mini-map', () => {
+  it('should mark the cells the ball passed through', () => {
+    const visited = visitedCells(maze, trail, CELL);
+
+    expect(visited[0].slice(0, 5)).toEqual([true, true, true, true, false]);
+    expect(visited[1][3]).toBe(true);
+    expect(visited.flat().filter(Boolean)).toHaveLength(5);
+  });
+
+  it('should ignore points outside the board', () => {
+    const visited = visitedCells(maze, [{ x: -10, y: 50 }, { x: 50, y: 900 }], CELL);
+    expect(visited.flat().some(Boolean)).toBe(false);
+  });
+
+  it('should draw one emoji per cell with start and goal marked', () => {
+    const rows = buildMiniMap(maze, trail, CELL).split('\n');
+
+    expect(rows).toHaveLength(maze.height);
+    expect(rows.every((row) => [...row].length === maze.width)).toBe(true);
+    expect(rows[0].startsWith('🟦🟩🟩🟩⬛')).toBe(true);
+    expect([...rows[maze.goal.y]][maze.goal.x]).toBe('🏁');
+  });
+});
+
+describe('Share - Text', () => {
+  it('should include the puzzle number, time and resets', () => {
+    const text = buildShareText({ seed: LAUNCH_DAY + 9, timeMs: 83400, resets: 1, maze, trail }, CELL);
+    const [title, line] = text.split('\n');
+
+    expect(title).toContain('#10');
+    expect(line).toContain('1:23.4');
+    expect(line).toContain('1 oof');
+  });
+});
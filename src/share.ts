@@ -0,0 +1,134 @@
+import { Maze } from './maze';
+import { Point } from './analysis';
+import { formatTime } from './utils';
+
+/** Days-since-epoch seed of puzzle #1 (2025-01-01) */
+export const LAUNCH_DAY = 20089;
+
+export const GAME_TITLE = 'Ball in a Maze';
+
+const EMOJI = {
+  start: '🟦',
+  goal: '🏁',
+  visited: '🟩',
+  unvisited: '⬛',
+};
+
+export interface ShareResult {
+  seed: number;
+  timeMs: number;
+  resets: number;
+  maze: Maze;
+  trail: (Point | null)[]; // Ball positions, null where it fell in a hole
+}
+
+/**
+ * Daily puzzle number, counting from 1 on launch day
+ */
+export function puzzleNumber(seed: number): number {
+  return seed - LAUNCH_DAY + 1;
+}
+
+/**
+ * Cells the ball passed through, as a [y][x] grid
+ */
+export function visitedCells(maze: Maze, trail: (Point | null)[], cellSize: number): boolean[][] {
+  const visited = maze.cells.map((row) => row.map(() => false));
+
+  for (const point of trail) {
+    if (!point) continue;
+    const x = Math.floor(point.x / cellSize);
+    const y = Math.floor(point.y / cellSize);
+    if (x >= 0 && x < maze.width && y >= 0 && y < maze.height) {
+      visited[y][x] = true;
+    }
+  }
+
+  return visited;
+}
+
+/**
+ * Emoji grid of the maze with the ball's path highlighted
+ */
+export function buildMiniMap(maze: Maze, trail: (Point | null)[], cellSize: number): string {
+  const visited = visitedCells(maze, trail, cellSize);
+  const { start } = maze;
+
+  return maze.cells
+    .map((row, y) =>
+      row
+        .map((_, x) => {
+          if (x === start.x && y === start.y) return EMOJI.start;
+          if (x === maze.goal.x && y === maze.goal.y) return EMOJI.goal;
+          return visited[y][x] ? EMOJI.visited : EMOJI.unvisited;
+        })
+        .join('')
+    )
+    .join('\n');
+}
+
+/**
+ * Spoiler-light text summary of a daily run for pasting into chats
+ */
+export function buildShareText(result: ShareResult, cellSize: number): string {
+  const oofs = result.resets === 1 ? '1 oof' : `${result.resets} oofs`;
+
+  return [
+    `${GAME_TITLE} #${puzzleNumber(result.seed)}`,
+    `⏱️ ${formatTime(result.timeMs)} · 🕳️ ${oofs}`,
+    '',
+    buildMiniMap(result.maze, result.trail, cellSize),
+  ].join('\n');
+}
+
+/**
+ * Share via the Web Share API where available (with the snapshot if the
+ * platform accepts files), otherwise copy to the clipboard.
+ * Resolves to how the result was shared, or null if nothing worked.
+ */
+export async function shareResult(text: string, image: Blob | null): Promise<'shared' | 'copied' | null> {
+  if (navigator.share) {
+    const files = image ? [new File([image], 'maze.png', { type: 'image/png' })] : [];
+    const data: ShareData = files.length > 0 && navigator.canShare?.({ files }) ? { text, files } : { text };
+
+    try {
+      await navigator.share(data);
+      return 'shared';
+    } catch (error) {
+      // The player closed the share sheet; don't fall back to the clipboard
+      if (error instanceof DOMException && error.name === 'AbortError') return null;
+    }
+  }
+
+  return copyResult(text, image);
+}
+
+/**
+ * Copy the text (and snapshot, where supported) to the clipboard
+ */
+export async function copyResult(text: string, image: Blob | null): Promise<'copied' | null> {
+  if (!navigator.clipboard) return null;
+
+  try {
+    if (image && typeof ClipboardItem !== 'undefined') {
+      await navigator.clipboard.write([
+        new ClipboardItem({
+          'text/plain': new Blob([text], { type: 'text/plain' }),
+          'image/png': image,
+        }),
+      ]);
+    } else {
+      await navigator.clipboard.writeText(text);
+    }
+    return 'copied';
+  } catch (error) {
+    // Some browsers refuse images on the clipboard; text alone is still useful
+    try {
+      await navigator.clipboard.writeText(text);
+      return 'copied';
+    } catch {
+      console.error('Could not copy result', error);
+      return null;
+    }
+  }
+}
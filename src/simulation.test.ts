@@ -0,0 +1,264 @@
+import { describe, it, expect } from 'vitest';
+import { Config, InputState } from './physics';
+import { generateMaze } from './maze';
+import { solveMaze } from './analysis';
+import {
+  createSimulation,
+  advanceSimulation,
+  stepSimulation,
+  getInterpolatedBalls,
+  getFallProgress,
+  FALL_TICKS,
+  TICK_DT,
+  MAX_FRAME_TIME,
+} from './simulation';
+
+const testConfig: Config = {
+  GRID_WIDTH: 8,
+  GRID_HEIGHT: 8,
+  GRAVITY: 1200,
+  FRICTION: 0.98,
+  BALL_RADIUS_RATIO: 0.3,
+  HOLE_RADIUS_RATIO: 0.2,
+  GOAL_RADIUS_RATIO: 0.3,
+};
+
+// Input changes every 30 ticks so the stream is identical regardless of frame rate
+const inputForTick = (tick: number): InputState => {
+  const phase = Math.floor(tick / 30) % 4;
+  return [
+    { tiltX: 1, tiltY: 0.2 },
+    { tiltX: 0.1, tiltY: 1 },
+    { tiltX: -0.5, tiltY: 0.6 },
+    { tiltX: 0.7, tiltY: -0.3 },
+  ][phase];
+};
+
+const runTicks = (ticks: number) => {
+  const sim = createSimulation(generateMaze(12345, 8, 8, 16), testConfig);
+  for (let i = 0; i < ticks && !sim.won; i++) {
+    stepSimulation(sim, inputForTick(sim.tick));
+  }
+  return sim;
+};
+
+describe('Simulation - Fixed timestep', () => {
+  it('should run one tick per TICK_DT of frame time', () => {
+    const sim = createSimulation(generateMaze(1, 8, 8, 16), testConfig);
+    const results = advanceSimulation(sim, TICK_DT * 3.5, () => ({ tiltX: 0, tiltY: 0 }));
+
+    expect(results).toHaveLength(3);
+    expect(sim.tick).toBe(3);
+    expect(sim.accumulator).toBeCloseTo(TICK_DT * 0.5);
+  });
+
+  it('should clamp long frames to avoid catching up forever', () => {
+    const sim = createSimulation(generateMaze(1, 8, 8, 16), testConfig);
+    advanceSimulation(sim, 10, () => ({ tiltX: 0, tiltY: 0 }));
+
+    expect(sim.tick).toBe(Math.floor(MAX_FRAME_TIME / TICK_DT));
+  });
+
+  it('should produce identical results on 60Hz and 144Hz displays', () => {
+    const simulateAt = (hz: number) => {
+      const sim = createSimulation(generateMaze(12345, 8, 8, 16), testConfig);
+      for (let frame = 0; frame < hz * 2; frame++) {
+        advanceSimulation(sim, 1 / hz, inputForTick);
+      }
+      return sim;
+    };
+
+    const a = simulateAt(60);
+    const b = simulateAt(144);
+
+    expect(a.tick).toBeGreaterThan(200);
+    expect(b.tick).toBeGreaterThan(200);
+    expect(a.balls[0].ball).toEqual(runTicks(a.tick).balls[0].ball);
+    expect(b.balls[0].ball).toEqual(runTicks(b.tick).balls[0].ball);
+  });
+
+  it('should be bit-for-bit reproducible for the same seed and inputs', () => {
+    const a = runTicks(600);
+    const b = runTicks(600);
+
+    expect(Object.is(a.balls[0].ball.x, b.balls[0].ball.x)).toBe(true);
+    expect(Object.is(a.balls[0].ball.y, b.balls[0].ball.y)).toBe(true);
+    expect(a.balls[0].ball).toEqual(b.balls[0].ball);
+  });
+});
+
+describe('Simulation - Interpolation', () => {
+  it('should blend between previous and current ball state', () => {
+    const sim = createSimulation(generateMaze(1, 8, 8, 16), testConfig);
+    sim.balls[0].previous = { x: 10, y: 20, vx: 0, vy: 0 };
+    sim.balls[0].ball = { x: 20, y: 40, vx: 5, vy: 5 };
+    sim.accumulator = TICK_DT / 2;
+
+    const ball = getInterpolatedBalls(sim)[0];
+
+    expect(ball.x).toBeCloseTo(15);
+    expect(ball.y).toBeCloseTo(30);
+  });
+});
+
+describe('Simulation - Falling', () => {
+  const still = { tiltX: 0, tiltY: 0 };
+
+  const simOverHole = () => {
+    const maze = generateMaze(1, 8, 8, 0);
+    maze.holes = [{ x: 3, y: 3 }];
+    const sim = createSimulation(maze, testConfig);
+    sim.balls[0].ball = { x: 352, y: 348, vx: 0, vy: 0 };
+    return sim;
+  };
+
+  it('should play out the fall before respawning', () => {
+    const sim = simOverHole();
+
+    const first = stepSimulation(sim, still);
+    expect(first).toMatchObject({ fell: 1, reset: false });
+    expect(sim.balls[0].falling).toMatchObject({ x: 350, y: 350 });
+
+    const results = Array.from({ length: FALL_TICKS }, () => stepSimulation(sim, still));
+
+    expect(results.filter((r) => r.reset)).toHaveLength(1);
+    expect(results[FALL_TICKS - 1].reset).toBe(true);
+    expect(sim.balls[0].falling).toBeNull();
+    expect(sim.balls[0].ball).toEqual({ x: 50, y: 50, vx: 0, vy: 0 });
+  });
+
+  it('should start and respawn at a hand-placed start', () => {
+    const sim = simOverHole();
+    sim.maze.start = { x: 5, y: 2 };
+    expect(createSimulation(sim.maze, testConfig).balls[0].ball).toMatchObject({ x: 550, y: 250 });
+
+    for (let i = 0; i <= FALL_TICKS; i++) stepSimulation(sim, still);
+    expect(sim.balls[0].ball).toMatchObject({ x: 550, y: 250 });
+  });
+
+  it('should roll into the middle of the hole and ignore input', () => {
+    const sim = simOverHole();
+    stepSimulation(sim, still);
+
+    for (let i = 0; i < FALL_TICKS / 2; i++) {
+      stepSimulation(sim, { tiltX: 1, tiltY: 1 });
+    }
+
+    expect(sim.balls[0].ball.x).toBeCloseTo(350, 1);
+    expect(sim.balls[0].ball.y).toBeCloseTo(350, 1);
+  });
+
+  it('should respawn at the furthest checkpoint reached', () => {
+    const sim = simOverHole();
+    sim.maze.checkpoints = [
+      { x: 1, y: 0 },
+      { x: 2, y: 0 },
+    ];
+    sim.balls[0].ball = { x: 250, y: 50, vx: 0, vy: 0 };
+    expect(stepSimulation(sim, still).checkpoint).toBe(true);
+
+    // Rolling back over an earlier checkpoint doesn't lose progress
+    sim.balls[0].ball = { x: 150, y: 50, vx: 0, vy: 0 };
+    expect(stepSimulation(sim, still).checkpoint).toBe(false);
+
+    sim.balls[0].ball = { x: 352, y: 348, vx: 0, vy: 0 };
+    for (let i = 0; i <= FALL_TICKS; i++) {
+      stepSimulation(sim, still);
+    }
+
+    expect(sim.balls[0].checkpoint).toBe(1);
+    expect(sim.balls[0].ball).toEqual({ x: 250, y: 50, vx: 0, vy: 0 });
+  });
+
+  it('should report fall progress for the renderer', () => {
+    const sim = simOverHole();
+    expect(getFallProgress(sim)[0]).toBe(0);
+
+    stepSimulation(sim, still);
+    for (let i = 0; i < FALL_TICKS / 2; i++) {
+      stepSimulation(sim, still);
+    }
+
+    expect(getFallProgress(sim)[0]).toBeCloseTo(0.5);
+  });
+});
+
+describe('Simulation - Multiple balls', () => {
+  const config = { ...testConfig, BALL_COUNT: 3 };
+
+  it('should line the balls up along the solution path', () => {
+    const maze = generateMaze(12345, 8, 8, 0);
+    const path = solveMaze(maze, { x: 0, y: 0 }, maze.goal);
+    const sim = createSimulation(maze, config);
+
+    expect(sim.balls).toHaveLength(3);
+    sim.balls.forEach(({ ball }, i) => {
+      expect(ball.x).toBe((path[i].x + 0.5) * 100);
+      expect(ball.y).toBe((path[i].y + 0.5) * 100);
+    });
+  });
+
+  it('should only win once every ball is in the goal', () => {
+    const sim = createSimulation(generateMaze(12345, 8, 8, 0), config);
+    const goal = { x: 750, y: 750, vx: 0, vy: 0 };
+
+    sim.balls[0].ball = { ...goal };
+    expect(stepSimulation(sim, { tiltX: 0, tiltY: 0 })).toMatchObject({ home: 1, won: false });
+    expect(sim.balls[0].home).toBe(true);
+
+    sim.balls[1].ball = { ...goal, x: 740 };
+    sim.balls[2].ball = { ...goal, y: 760 };
+    expect(stepSimulation(sim, { tiltX: 0, tiltY: 0 })).toMatchObject({ home: 2, won: true });
+  });
+
+  it('should not let balls roll through each other', () => {
+    const maze = generateMaze(1, 8, 8, 0);
+    const sim = createSimulation(maze, { ...config, BALL_COUNT: 2 });
+    sim.balls[0].ball = { x: 250, y: 450, vx: 300, vy: 0 };
+    sim.balls[1].ball = { x: 350, y: 450, vx: -300, vy: 0 };
+    maze.cells.flat().forEach((cell) => (cell.walls = { north: false, east: false, south: false, west: false }));
+
+    for (let i = 0; i < 30; i++) {
+      stepSimulation(sim, { tiltX: 0, tiltY: 0 });
+    }
+
+    const [a, b] = sim.balls.map(({ ball }) => ball);
+    expect(b.x - a.x).toBeGreaterThanOrEqual(60 - 1e-6);
+  });
+
+  it('should not line balls up where a hole would pull them in', () => {
+    const maze = generateMaze(12345, 8, 8, 0);
+    const path = solveMaze(maze, maze.start, maze.goal);
+    maze.holes = [path[1], { ...path[3], offsetX: 0.3 }];
+    const sim = createSimulation(maze, { ...config, HOLE_PULL: 0.5 });
+
+    expect(sim.balls.map(({ ball }) => [ball.x, ball.y])).toEqual(
+      [path[0], path[2], path[4]].map((cell) => [(cell.x + 0.5) * 100, (cell.y + 0.5) * 100])
+    );
+    expect(stepSimulation(sim, { tiltX: 0, tiltY: 0 }).fell).toBe(0);
+  });
+
+  it('should respawn each ball at the furthest checkpoint it reached itself', () => {
+    const maze = generateMaze(12345, 8, 8, 0);
+    maze.holes = [{ x: 3, y: 3 }];
+    maze.checkpoints = [{ x: 6, y: 6 }];
+    const sim = createSimulation(maze, config);
+    sim.balls[0].ball = { x: 650, y: 650, vx: 0, vy: 0 };
+    sim.balls[1].ball = { x: 350, y: 350, vx: 0, vy: 0 };
+
+    for (let i = 0; i <= FALL_TICKS + 1; i++) stepSimulation(sim, { tiltX: 0, tiltY: 0 });
+
+    expect(sim.balls.map((b) => b.checkpoint)).toEqual([0, -1, -1]);
+    expect(sim.balls[1].ball).toMatchObject({ x: (maze.start.x + 0.5) * 100, y: (maze.start.y + 0.5) * 100 });
+  });
+
+  it('should drop and respawn balls independently', () => {
+    const maze = generateMaze(12345, 8, 8, 0);
+    maze.holes = [{ x: 3, y: 3 }];
+    const sim = createSimulation(maze, config);
+    sim.balls[1].ball = { x: 350, y: 350, vx: 0, vy: 0 };
+
+    expect(stepSimulation(sim, { tiltX: 0, tiltY: 0 }).fell).toBe(1);
+    expect(sim.balls.map((b) => b.falling !== null)).toEqual([false, true, false]);
+  });
+});
@@ -0,0 +1,252 @@
+import { Checkpoint, Maze } from './maze';
+import { Ball, Config, InputState, holeCenter, updateBall, resetBall } from './physics';
+import { collideCircles } from './collision';
+import { solveMaze } from './analysis';
+
+/**
+ * Simulation runs in a fixed world space, independent of canvas size,
+ * so the same inputs produce the same trajectory on every device.
+ */
+export const SIM_CELL_SIZE = 100;
+
+/** Physics ticks per second */
+export const TICK_RATE = 120;
+export const TICK_DT = 1 / TICK_RATE;
+
+/** How long the ball takes to drop out of sight before respawning */
+export const FALL_TICKS = Math.round(0.4 * TICK_RATE);
+
+/** Longest frame we will catch up on (avoids a spiral of death after tab stalls) */
+export const MAX_FRAME_TIME = 0.25;
+
+export interface Simulation {
+  maze: Maze;
+  config: Config;
+  balls: SimBall[];
+  tick: number; // Number of ticks simulated so far
+  accumulator: number; // Unsimulated time carried over between frames (seconds)
+  won: boolean; // Every ball is in the goal
+}
+
+export interface SimBall {
+  ball: Ball;
+  previous: Ball; // Ball state at the start of the current tick, for interpolation
+  falling: Falling | null; // Set while the ball drops into a hole
+  home: boolean; // Resting in the goal, out of play
+  checkpoint: number; // Furthest checkpoint this ball reached (index into maze.checkpoints), -1 for none
+}
+
+export interface Falling {
+  x: number; // Centre of the hole (simulation units)
+  y: number;
+  startTick: number;
+}
+
+export interface TickResult {
+  tick: number; // Tick the input was applied to
+  fell: number; // Balls that dropped into a hole this tick
+  reset: boolean; // A ball respawned at the start (or a checkpoint) after falling
+  checkpoint: boolean; // A ball reached a checkpoint further along than it had before
+  home: number; // Balls that reached the goal this tick
+  won: boolean;
+}
+
+/**
+ * Create a simulation with the balls lined up along the solution path,
+ * the first at the centre of the start cell
+ */
+export function createSimulation(maze: Maze, config: Config): Simulation {
+  const count = Math.max(1, config.BALL_COUNT ?? 1);
+  const { start } = maze;
+  const spawns = count > 1 ? [start, ...spawnCells(maze, config)] : [start];
+
+  const balls = Array.from({ length: count }, (_, i): SimBall => {
+    const ball: Ball = { x: 0, y: 0, vx: 0, vy: 0 };
+    // Any doubled-up balls get pushed apart on the first tick
+    resetBall(ball, SIM_CELL_SIZE, spawns[Math.min(i, spawns.length - 1)]);
+    return { ball, previous: { ...ball }, falling: null, home: false, checkpoint: -1 };
+  });
+
+  return {
+    maze,
+    config,
+    balls,
+    tick: 0,
+    accumulator: 0,
+    won: false,
+  };
+}
+
+// Cells along the solution after the start where an extra ball can sit still:
+// clear of the goal and out of reach of every hole's pull
+function spawnCells(maze: Maze, config: Config): Checkpoint[] {
+  const path = solveMaze(maze, maze.start, maze.goal);
+  const reach = (config.HOLE_RADIUS_RATIO + config.BALL_RADIUS_RATIO) * SIM_CELL_SIZE;
+  const isClear = (cell: Checkpoint) =>
+    maze.holes.every((hole) => {
+      const { x, y } = holeCenter(hole, SIM_CELL_SIZE);
+      return Math.hypot(x - (cell.x + 0.5) * SIM_CELL_SIZE, y - (cell.y + 0.5) * SIM_CELL_SIZE) >= reach;
+    });
+
+  return path.slice(1, -1).filter(isClear);
+}
+
+/**
+ * Advance the simulation by exactly one tick
+ */
+export function stepSimulation(sim: Simulation, input: InputState): TickResult {
+  const result: TickResult = {
+    tick: sim.tick,
+    fell: 0,
+    reset: false,
+    checkpoint: false,
+    home: 0,
+    won: false,
+  };
+  sim.tick++;
+
+  for (const simBall of sim.balls) {
+    simBall.previous = { ...simBall.ball };
+    if (simBall.home) continue;
+
+    if (simBall.falling) {
+      result.reset = stepFalling(sim, simBall, simBall.falling) || result.reset;
+      continue;
+    }
+
+    const ballResult = updateBall(
+      simBall.ball,
+      input,
+      sim.maze,
+      sim.config,
+      SIM_CELL_SIZE,
+      TICK_DT,
+      result.tick * TICK_DT
+    );
+
+    if (ballResult.won) {
+      // Settles in the goal and stays there
+      simBall.home = true;
+      simBall.ball.vx = 0;
+      simBall.ball.vy = 0;
+      result.home++;
+    } else if (ballResult.hole) {
+      // Input is ignored until the ball has dropped and respawned
+      simBall.falling = { ...ballResult.hole, startTick: sim.tick };
+      simBall.ball.vx = 0;
+      simBall.ball.vy = 0;
+      result.fell++;
+    }
+
+    // Respawn at the furthest checkpoint, even after rolling back past it
+    if (ballResult.checkpoint !== undefined && ballResult.checkpoint > simBall.checkpoint) {
+      simBall.checkpoint = ballResult.checkpoint;
+      result.checkpoint = true;
+    }
+  }
+
+  collideBalls(sim);
+
+  sim.won = sim.balls.every((simBall) => simBall.home);
+  result.won = sim.won;
+  return result;
+}
+
+/**
+ * Knock rolling balls off each other. Balls in the goal or dropping into a
+ * hole are out of play.
+ */
+function collideBalls(sim: Simulation) {
+  const rolling = sim.balls.filter((simBall) => !simBall.home && !simBall.falling);
+  if (rolling.length < 2) return;
+
+  const radius = SIM_CELL_SIZE * sim.config.BALL_RADIUS_RATIO;
+  for (let i = 0; i < rolling.length; i++) {
+    for (let j = i + 1; j < rolling.length; j++) {
+      collideCircles(rolling[i].ball, rolling[j].ball, radius, sim.config.RESTITUTION);
+    }
+  }
+}
+
+/**
+ * Roll the ball into the middle of the hole, then put it back at the start
+ * or the furthest checkpoint it reached.
+ * Returns true on the tick it respawns.
+ */
+function stepFalling(sim: Simulation, simBall: SimBall, falling: Falling): boolean {
+  const { ball } = simBall;
+
+  if (sim.tick - falling.startTick < FALL_TICKS) {
+    ball.x += (falling.x - ball.x) * 0.2;
+    ball.y += (falling.y - ball.y) * 0.2;
+    return false;
+  }
+
+  simBall.falling = null;
+  resetBall(ball, SIM_CELL_SIZE, sim.maze.checkpoints?.[simBall.checkpoint] ?? sim.maze.start);
+  // Don't interpolate across the teleport back to the start
+  simBall.previous = { ...ball };
+  return true;
+}
+
+/**
+ * How far each ball's fall has got, 0 (not falling) to 1 (out of sight)
+ */
+export function getFallProgress(sim: Simulation): number[] {
+  return sim.balls.map(({ falling }) => {
+    if (!falling) return 0;
+
+    const elapsed = sim.tick - falling.startTick + sim.accumulator / TICK_DT;
+    return Math.min(1, elapsed / FALL_TICKS);
+  });
+}
+
+/**
+ * Feed a frame's worth of real time into the simulation and run as many
+ * fixed ticks as fit, asking for the input to apply to each tick.
+ */
+export function advanceSimulation(
+  sim: Simulation,
+  frameTime: number,
+  getInput: (tick: number) => InputState
+): TickResult[] {
+  const results: TickResult[] = [];
+  if (sim.won) return results;
+
+  sim.accumulator += Math.min(Math.max(frameTime, 0), MAX_FRAME_TIME);
+
+  while (sim.accumulator >= TICK_DT) {
+    sim.accumulator -= TICK_DT;
+    const result = stepSimulation(sim, getInput(sim.tick));
+    results.push(result);
+
+    if (result.won) {
+      sim.accumulator = 0;
+      break;
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Ball positions blended between the last two ticks for smooth rendering
+ */
+export function getInterpolatedBalls(sim: Simulation): Ball[] {
+  const alpha = sim.accumulator / TICK_DT;
+
+  return sim.balls.map(({ previous: prev, ball: curr }) => ({
+    x: prev.x + (curr.x - prev.x) * alpha,
+    y: prev.y + (curr.y - prev.y) * alpha,
+    vx: curr.vx,
+    vy: curr.vy,
+  }));
+}
+
+/**
+ * Convert a ball from simulation space to canvas pixels
+ */
+export function toDisplayBall(ball: Ball, cellSize: number): Ball {
+  const scale = cellSize / SIM_CELL_SIZE;
+  return { x: ball.x * scale, y: ball.y * scale, vx: ball.vx * scale, vy: ball.vy * scale };
+}
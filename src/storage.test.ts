@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest';
+import {
+  KeyValueStore,
+  MAX_GHOSTS,
+  ProgressData,
+  STORAGE_KEY,
+  SCHEMA_VERSION,
+  computeStats,
+  emptyProgress,
+  loadProgress,
+  migrate,
+  recordGhost,
+  recordResult,
+  saveProgress,
+} from './storage';
+
+const createStore = (initial: Record<string, string> = {}): KeyValueStore & { data: Record<string, string> } => {
+  const data = { ...initial };
+  return {
+    data,
+    getItem: (key) => (key in data ? data[key] : null),
+    setItem: (key, value) => {
+      data[key] = value;
+    },
+  };
+};
+
+const solve = (data: ProgressData, day: number, timeMs = 60000, resets = 0) =>
+  recordResult(data, { seed: day, day, timeMs, resets }, day * 86400000);
+
+describe('Storage - Persistence', () => {
+  it('should start empty when nothing is stored', () => {
+    expect(loadProgress(createStore())).toEqual(emptyProgress());
+  });
+
+  it('should round trip through storage', () => {
+    const store = createStore();
+    const progress = solve(emptyProgress(), 20000);
+
+    saveProgress(progress, store);
+
+    expect(JSON.parse(store.data[STORAGE_KEY]).version).toBe(SCHEMA_VERSION);
+    expect(loadProgress(store)).toEqual(progress);
+  });
+
+  it('should recover from corrupt data', () => {
+    const store = createStore({ [STORAGE_KEY]: '{not json' });
+    expect(loadProgress(store)).toEqual(emptyProgress());
+  });
+
+  it('should work without storage', () => {
+    expect(loadProgress(null)).toEqual(emptyProgress());
+    expect(() => saveProgress(emptyProgress(), null)).not.toThrow();
+  });
+});
+
+describe('Storage - Migration', () => {
+  it('should upgrade unversioned data', () => {
+    expect(migrate({})).toEqual(emptyProgress());
+  });
+
+  it('should give schema 1 data an empty ghost store', () => {
+    const results = solve(emptyProgress(), 20000).results;
+    expect(migrate({ version: 1, results })).toEqual({ version: SCHEMA_VERSION, results, ghosts: {} });
+  });
+
+  it('should leave current data alone', () => {
+    const progress = solve(emptyProgress(), 20000);
+    expect(migrate(progress)).toEqual(progress);
+  });
+
+  it('should refuse data that is not shaped like progress', () => {
+    expect(migrate([])).toBeNull();
+    expect(migrate({ version: SCHEMA_VERSION, results: [], ghosts: {} })).toBeNull();
+    expect(migrate({ version: 1, results: 'lost' })).toBeNull();
+  });
+
+  it('should refuse data from a newer schema', () => {
+    expect(migrate({ version: SCHEMA_VERSION + 1, results: {} })).toBeNull();
+  });
+});
+
+describe('Storage - Recording results', () => {
+  it('should store the date and first completion', () => {
+    const progress = recordResult(emptyProgress(), {
+      seed: 20000,
+      day: 20000,
+      timeMs: 42000,
+      resets: 2,
+    });
+
+    expect(progress.results[20000]).toMatchObject({
+      date: '2024-10-04',
+      timeMs: 42000,
+      bestTimeMs: 42000,
+      resets: 2,
+      completions: 1,
+    });
+  });
+
+  it('should keep the first result but track the best time', () => {
+    let progress = solve(emptyProgress(), 20000, 60000, 3);
+    progress = solve(progress, 20000, 30000, 0);
+    progress = solve(progress, 20000, 45000, 1);
+
+    expect(progress.results[20000]).toMatchObject({
+      timeMs: 60000,
+      bestTimeMs: 30000,
+      resets: 3,
+      completions: 3,
+    });
+  });
+});
+
+describe('Storage - Ghosts', () => {
+  const ghost = (ticks: number) => ({ ticks, paths: [[50, 50, 150, 50]] });
+
+  it('should keep the first ghost of a seed', () => {
+    const progress = recordGhost(emptyProgress(), 20000, ghost(900));
+    expect(progress.ghosts[20000]).toEqual(ghost(900));
+  });
+
+  it('should only replace a ghost with a faster run', () => {
+    let progress = recordGhost(emptyProgress(), 20000, ghost(900));
+    progress = recordGhost(progress, 20000, ghost(1200));
+    expect(progress.ghosts[20000].ticks).toBe(900);
+
+    progress = recordGhost(progress, 20000, ghost(600));
+    expect(progress.ghosts[20000].ticks).toBe(600);
+  });
+
+  it('should drop the oldest seeds beyond the limit', () => {
+    let progress = emptyProgress();
+    for (let day = 20000; day < 20000 + MAX_GHOSTS + 2; day++) {
+      progress = recordGhost(progress, day, ghost(900));
+    }
+
+    expect(Object.keys(progress.ghosts)).toHaveLength(MAX_GHOSTS);
+    expect(progress.ghosts[20000]).toBeUndefined();
+    expect(progress.ghosts[20001]).toBeUndefined();
+    expect(progress.ghosts[20002]).toBeDefined();
+  });
+});
+
+describe('Storage - Stats', () => {
+  it('should be empty with no history', () => {
+    const stats = computeStats(emptyProgress(), 20000);
+
+    expect(stats.played).toBe(0);
+    expect(stats.currentStreak).toBe(0);
+    expect(stats.bestTimeMs).toBeNull();
+  });
+
+  it('should count consecutive days as a streak', () => {
+    let progress = emptyProgress();
+    for (const day of [19990, 19991, 19992, 19998, 19999, 20000]) {
+      progress = solve(progress, day);
+    }
+
+    const stats = computeStats(progress, 20000);
+
+    expect(stats.currentStreak).toBe(3);
+    expect(stats.maxStreak).toBe(3);
+  });
+
+  it("should keep yesterday's streak alive until today is played", () => {
+    let progress = solve(emptyProgress(), 19998);
+    progress = solve(progress, 19999);
+
+    expect(computeStats(progress, 20000).currentStreak).toBe(2);
+    expect(computeStats(progress, 20001).currentStreak).toBe(0);
+  });
+
+  it('should report best and average times', () => {
+    let progress = solve(emptyProgress(), 19999, 40000);
+    progress = solve(progress, 20000, 80000);
+
+    const stats = computeStats(progress, 20000);
+
+    expect(stats.bestTimeMs).toBe(40000);
+    expect(stats.averageTimeMs).toBe(60000);
+  });
+
+  it('should bucket results by resets with a catch-all last bucket', () => {
+    let progress = emptyProgress();
+    progress = solve(progress, 19996, 1000, 0);
+    progress = solve(progress, 19997, 1000, 0);
+    progress = solve(progress, 19998, 1000, 2);
+    progress = solve(progress, 19999, 1000, 9);
+
+    expect(computeStats(progress, 20000).histogram).toEqual([2, 0, 1, 0, 0, 1]);
+  });
+});
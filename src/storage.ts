@@ -0,0 +1,222 @@
+import type { Ghost } from './ghost';
+
+export const STORAGE_KEY = 'ball-in-a-maze-le:progress';
+export const SCHEMA_VERSION = 2;
+
+/** Ghosts run to a few KB each, so only the most recent puzzles keep one */
+export const MAX_GHOSTS = 14;
+
+/** Reset-count buckets for the win screen histogram (last one is "or more") */
+export const HISTOGRAM_BUCKETS = 6;
+
+/**
+ * Result of the first completed run of a daily maze
+ */
+export interface RunResult {
+  seed: number;
+  day: number; // Days since epoch the puzzle belongs to (drives streaks)
+  date: string; // YYYY-MM-DD
+  timeMs: number; // First completion time
+  bestTimeMs: number; // Best over all completions of this seed
+  resets: number; // "oof"s during the first completion
+  completions: number;
+  completedAt: number; // Wall clock time of the first completion (ms since epoch)
+}
+
+export interface ProgressData {
+  version: number;
+  results: Record<string, RunResult>; // Keyed by seed
+  ghosts: Record<string, Ghost>; // Fastest run of each seed, keyed by seed
+}
+
+export interface Stats {
+  played: number;
+  currentStreak: number;
+  maxStreak: number;
+  bestTimeMs: number | null;
+  averageTimeMs: number | null;
+  histogram: number[]; // Runs finished with 0, 1, 2... resets
+}
+
+/** Minimal slice of the Web Storage API, so tests can pass a fake */
+export type KeyValueStore = Pick<Storage, 'getItem' | 'setItem'>;
+
+// Stored progress as parsed, before it is known to match any schema
+type StoredData = Record<string, unknown>;
+
+/**
+ * Upgrades from each schema version to the next. Add an entry when
+ * bumping SCHEMA_VERSION so existing players keep their history.
+ */
+const MIGRATIONS: Record<number, (data: StoredData) => StoredData> = {
+  // Unversioned: nothing was ever stored before schema 1
+  0: () => ({ version: 1, results: {} }),
+  // 1 -> 2: personal best ghosts
+  1: (data) => ({ ...data, version: 2, ghosts: {} }),
+};
+
+export function emptyProgress(): ProgressData {
+  return { version: SCHEMA_VERSION, results: {}, ghosts: {} };
+}
+
+/**
+ * Bring stored data up to the current schema, or null if it can't be read
+ */
+export function migrate(data: unknown): ProgressData | null {
+  if (!isRecord(data)) return null;
+
+  let current = data;
+  let version = typeof current.version === 'number' ? current.version : 0;
+
+  // Written by a newer build; don't guess at it
+  if (version > SCHEMA_VERSION) return null;
+
+  while (version < SCHEMA_VERSION) {
+    const upgrade = MIGRATIONS[version];
+    if (!upgrade) return null;
+    current = upgrade(current);
+    if (typeof current.version !== 'number') return null;
+    version = current.version;
+  }
+
+  // Only the containers are checked; entries are written by this code alone
+  if (!isRecord(current.results) || !isRecord(current.ghosts)) return null;
+  return current as unknown as ProgressData;
+}
+
+function isRecord(value: unknown): value is StoredData {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Load progress, falling back to empty if missing or unreadable
+ */
+export function loadProgress(store: KeyValueStore | null = defaultStore()): ProgressData {
+  if (!store) return emptyProgress();
+
+  try {
+    const raw = store.getItem(STORAGE_KEY);
+    if (!raw) return emptyProgress();
+    return migrate(JSON.parse(raw)) ?? emptyProgress();
+  } catch (error) {
+    console.error('Could not load progress', error);
+    return emptyProgress();
+  }
+}
+
+export function saveProgress(data: ProgressData, store: KeyValueStore | null = defaultStore()) {
+  if (!store) return;
+
+  try {
+    store.setItem(STORAGE_KEY, JSON.stringify(data));
+  } catch (error) {
+    // Quota exceeded or storage disabled (private browsing)
+    console.error('Could not save progress', error);
+  }
+}
+
+/**
+ * Record a completed run. The first completion of a seed is the one that
+ * counts for streaks and the histogram; later ones can only improve the best time.
+ */
+export function recordResult(
+  data: ProgressData,
+  run: { seed: number; day: number; timeMs: number; resets: number },
+  now = Date.now()
+): ProgressData {
+  const existing = data.results[run.seed];
+
+  const result: RunResult = existing
+    ? {
+        ...existing,
+        bestTimeMs: Math.min(existing.bestTimeMs, run.timeMs),
+        completions: existing.completions + 1,
+      }
+    : {
+        seed: run.seed,
+        day: run.day,
+        date: dayToDate(run.day),
+        timeMs: run.timeMs,
+        bestTimeMs: run.timeMs,
+        resets: run.resets,
+        completions: 1,
+        completedAt: now,
+      };
+
+  return { ...data, results: { ...data.results, [run.seed]: result } };
+}
+
+/**
+ * Keep a run's ghost if it beats the one stored for its seed, dropping the
+ * ghosts of the oldest seeds beyond MAX_GHOSTS
+ */
+export function recordGhost(data: ProgressData, seed: number, ghost: Ghost): ProgressData {
+  const existing = data.ghosts[seed];
+  if (existing && existing.ticks <= ghost.ticks) return data;
+
+  const ghosts: Record<string, Ghost> = { ...data.ghosts, [seed]: ghost };
+  const seeds = Object.keys(ghosts).sort((a, b) => Number(b) - Number(a));
+  for (const old of seeds.slice(MAX_GHOSTS)) delete ghosts[old];
+
+  return { ...data, ghosts };
+}
+
+/**
+ * Derive streaks, best times and the reset histogram. A streak is still
+ * current if yesterday's maze was solved and today's hasn't been yet.
+ */
+export function computeStats(data: ProgressData, today: number): Stats {
+  const results = Object.values(data.results);
+  const days = new Set(results.map((r) => r.day));
+
+  let maxStreak = 0;
+  let run = 0;
+  const sortedDays = [...days].sort((a, b) => a - b);
+  for (let i = 0; i < sortedDays.length; i++) {
+    run = i > 0 && sortedDays[i] === sortedDays[i - 1] + 1 ? run + 1 : 1;
+    maxStreak = Math.max(maxStreak, run);
+  }
+
+  let currentStreak = 0;
+  let day = days.has(today) ? today : today - 1;
+  while (days.has(day)) {
+    currentStreak++;
+    day--;
+  }
+
+  const histogram = new Array(HISTOGRAM_BUCKETS).fill(0);
+  for (const result of results) {
+    histogram[Math.min(result.resets, HISTOGRAM_BUCKETS - 1)]++;
+  }
+
+  const times = results.map((r) => r.bestTimeMs);
+
+  return {
+    played: results.length,
+    currentStreak,
+    maxStreak,
+    bestTimeMs: times.length > 0 ? Math.min(...times) : null,
+    averageTimeMs:
+      results.length > 0 ? results.reduce((sum, r) => sum + r.timeMs, 0) / results.length : null,
+    histogram,
+  };
+}
+
+/**
+ * Format days since epoch as YYYY-MM-DD
+ */
+export function dayToDate(day: number): string {
+  return new Date(day * 86400000).toISOString().slice(0, 10);
+}
+
+/**
+ * localStorage when it is usable, else null
+ */
+export function defaultStore(): KeyValueStore | null {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  } catch {
+    // Accessing localStorage can throw when cookies are blocked
+    return null;
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { generateMaze } from './maze';
+import { solveMaze } from './analysis';
+import { isDoorClosed } from './tiles';
+
+const TILES = { ice: 2, mud: 2, slope: 2, bumper: 2, gate: 2, door: 2 };
+
+describe('Tiles - Placement', () => {
+  const plain = generateMaze(20000, 8, 8, 6);
+  const tiled = generateMaze(20000, 8, 8, 6, { tiles: TILES });
+  const placed = tiled.cells.flat().filter((cell) => cell.tile);
+
+  it('should place the requested number of each tile', () => {
+    for (const [type, count] of Object.entries(TILES)) {
+      expect(placed.filter((cell) => cell.tile!.type === type)).toHaveLength(count);
+    }
+  });
+
+  it('should leave the walls and holes unchanged', () => {
+    expect(tiled.holes).toEqual(plain.holes);
+    expect(tiled.cells.map((row) => row.map((cell) => cell.walls))).toEqual(
+      plain.cells.map((row) => row.map((cell) => cell.walls))
+    );
+  });
+
+  it('should keep the start, goal and holes plain', () => {
+    expect(tiled.cells[0][0].tile).toBeUndefined();
+    expect(tiled.cells[tiled.goal.y][tiled.goal.x].tile).toBeUndefined();
+    for (const hole of tiled.holes) {
+      expect(tiled.cells[hole.y][hole.x].tile).toBeUndefined();
+    }
+  });
+
+  it('should point gates along the solution and keep bumpers off it', () => {
+    const path = solveMaze(tiled, { x: 0, y: 0 }, tiled.goal);
+    const onPath = (x: number, y: number) => path.findIndex((p) => p.x === x && p.y === y);
+
+    for (const cell of placed) {
+      if (cell.tile!.type === 'bumper') expect(onPath(cell.x, cell.y)).toBe(-1);
+      if (cell.tile!.type === 'gate') {
+        const next = path[onPath(cell.x, cell.y) + 1];
+        const side = { east: [1, 0], west: [-1, 0], south: [0, 1], north: [0, -1] }[cell.tile!.side];
+        expect([next.x - cell.x, next.y - cell.y]).toEqual(side);
+      }
+    }
+  });
+
+  it('should give the same tiles for the same seed', () => {
+    expect(generateMaze(20000, 8, 8, 6, { tiles: TILES })).toEqual(tiled);
+  });
+});
+
+describe('Tiles - Doors', () => {
+  it('should spend the first half of each period shut', () => {
+    const door = { type: 'door' as const, side: 'east' as const, period: 2, phase: 0 };
+
+    expect(isDoorClosed(door, 0.5)).toBe(true);
+    expect(isDoorClosed(door, 1.5)).toBe(false);
+    expect(isDoorClosed(door, 2.5)).toBe(true);
+    expect(isDoorClosed({ ...door, phase: 1 }, 0.5)).toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+import type { Cell, Direction, Maze, Tile, TileType } from './maze';
+import { DIRECTIONS, Point, solveMaze } from './analysis';
+import { shuffle } from './generators';
+import { RNG } from './utils';
+
+/** How many of each tile to place */
+export type TileCounts = Partial<Record<TileType, number>>;
+
+/** Placement order, so the same counts always produce the same board */
+export const TILE_TYPES: TileType[] = ['ice', 'mud', 'slope', 'bumper', 'gate', 'door'];
+
+export const OPPOSITE: Record<Direction, Direction> = {
+  north: 'south',
+  east: 'west',
+  south: 'north',
+  west: 'east',
+};
+
+/** Door open/closed cycle length range, in seconds */
+const DOOR_PERIOD = { min: 2, max: 4 };
+
+/**
+ * Whether a door is shut at `time` seconds into the run. Doors spend the
+ * first half of each period closed.
+ */
+export function isDoorClosed(tile: Extract<Tile, { type: 'door' }>, time: number): boolean {
+  const t = (time + tile.phase) % tile.period;
+  return t < tile.period / 2;
+}
+
+/**
+ * Scatter special tiles over a generated maze. Start, goal and hole cells
+ * are left plain. Gates go on the solution path facing the goal so the
+ * maze stays solvable; bumpers stay off it so they never plug a corridor.
+ */
+export function placeTiles(maze: Maze, rng: RNG, counts: TileCounts) {
+  const path = solveMaze(maze, maze.start, maze.goal);
+  const onPath = new Set(path.map((p) => `${p.x},${p.y}`));
+  const isReserved = (cell: Cell) =>
+    (cell.x === maze.start.x && cell.y === maze.start.y) ||
+    (cell.x === maze.goal.x && cell.y === maze.goal.y) ||
+    maze.holes.some((h) => h.x === cell.x && h.y === cell.y);
+
+  const free = shuffle(maze.cells.flat().filter((cell) => !isReserved(cell)), rng);
+  const take = (accept: (cell: Cell) => boolean = () => true): Cell | null => {
+    const index = free.findIndex(accept);
+    return index >= 0 ? free.splice(index, 1)[0] : null;
+  };
+
+  for (const type of TILE_TYPES) {
+    for (let i = 0; i < (counts[type] ?? 0); i++) {
+      if (!placeTile(type, take, path, onPath, rng)) break;
+    }
+  }
+}
+
+function placeTile(
+  type: TileType,
+  take: (accept?: (cell: Cell) => boolean) => Cell | null,
+  path: Point[],
+  onPath: Set<string>,
+  rng: RNG
+): Tile | null {
+  switch (type) {
+    case 'ice':
+    case 'mud':
+      return assign(take(), { type });
+
+    case 'slope': {
+      const cell = take();
+      const direction = (Object.keys(DIRECTIONS) as Direction[])[rng.nextInt(4)];
+      return assign(cell, { type, direction });
+    }
+
+    case 'bumper':
+      return assign(take((cell) => !onPath.has(`${cell.x},${cell.y}`)), { type });
+
+    case 'gate': {
+      // Let the ball through towards the goal but not back
+      const index = new Map(path.map((p, i) => [`${p.x},${p.y}`, i]));
+      const cell = take((c) => {
+        const i = index.get(`${c.x},${c.y}`);
+        return i !== undefined && i < path.length - 1;
+      });
+      if (!cell) return null;
+      const next = path[index.get(`${cell.x},${cell.y}`)! + 1];
+      return assign(cell, { type, side: directionTo(cell, next) });
+    }
+
+    case 'door': {
+      const cell = take((c) => openSides(c).length > 0);
+      if (!cell) return null;
+      const sides = openSides(cell);
+      return assign(cell, {
+        type,
+        side: sides[rng.nextInt(sides.length)],
+        period: rng.nextFloat(DOOR_PERIOD.min, DOOR_PERIOD.max),
+        phase: rng.nextFloat(0, DOOR_PERIOD.max),
+      });
+    }
+  }
+}
+
+function assign(cell: Cell | null, tile: Tile): Tile | null {
+  if (!cell) return null;
+  cell.tile = tile;
+  return tile;
+}
+
+function openSides(cell: Cell): Direction[] {
+  return (Object.keys(DIRECTIONS) as Direction[]).filter((side) => !cell.walls[side]);
+}
+
+function directionTo(from: Point, to: Point): Direction {
+  if (to.x > from.x) return 'east';
+  if (to.x < from.x) return 'west';
+  if (to.y > from.y) return 'south';
+  return 'north';
+}
@@ -1,15 +1,23 @@
+import { puzzleDay } from './schedule';
+
 /**
- * Get today's seed based on UTC date (YYYY-MM-DD)
- * Returns days since epoch
+ * Seed of the daily maze live now (days since epoch), following DAILY_SCHEDULE
  */
-export function getTodaySeed(): number {
-  const today = new Date();
-  const utc = Date.UTC(
-    today.getUTCFullYear(),
-    today.getUTCMonth(),
-    today.getUTCDate()
-  );
-  return Math.floor(utc / 86400000); // Days since epoch
+export function getTodaySeed(now = Date.now()): number {
+  return puzzleDay(now);
+}
+
+/**
+ * Format a duration as m:ss.t (or s.t under a minute)
+ */
+export function formatTime(ms: number): string {
+  const tenths = Math.floor(ms / 100);
+  const minutes = Math.floor(tenths / 600);
+  const seconds = Math.floor((tenths % 600) / 10);
+  const fraction = tenths % 10;
+
+  if (minutes === 0) return `${seconds}.${fraction}s`;
+  return `${minutes}:${String(seconds).padStart(2, '0')}.${fraction}`;
 }
 
 /**
@@ -35,3 +43,5 @@ export function seedRNG(seed: number) {
     },
   };
 }
+
+export type RNG = ReturnType<typeof seedRNG>;
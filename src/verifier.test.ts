@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import { InputState } from './physics';
+import { Maze } from './maze';
+import { DAILY_CONFIG, LevelConfig, buildLevel } from './level';
+import { createSimulation, stepSimulation, SIM_CELL_SIZE } from './simulation';
+import { Replay, createRecorder, quantizeInput } from './replay';
+import { verifyReplay, verifyRun } from './verifier';
+
+const testConfig: LevelConfig = {
+  GRID_WIDTH: 4,
+  GRID_HEIGHT: 4,
+  GRAVITY: 1200,
+  FRICTION: 0.98,
+  BALL_RADIUS_RATIO: 0.3,
+  HOLE_RADIUS_RATIO: 0.2,
+  GOAL_RADIUS_RATIO: 0.3,
+  HOLE_COUNT: 0,
+};
+
+// Breadth-first route from the start cell to the goal
+const findRoute = (maze: Maze) => {
+  const key = (x: number, y: number) => `${x},${y}`;
+  const prev = new Map<string, [number, number] | null>([[key(0, 0), null]]);
+  const queue: [number, number][] = [[0, 0]];
+
+  while (queue.length > 0) {
+    const [x, y] = queue.shift()!;
+    const { walls } = maze.cells[y][x];
+    const moves: [boolean, number, number][] = [
+      [walls.north, x, y - 1],
+      [walls.east, x + 1, y],
+      [walls.south, x, y + 1],
+      [walls.west, x - 1, y],
+    ];
+    for (const [blocked, nx, ny] of moves) {
+      if (blocked || prev.has(key(nx, ny))) continue;
+      prev.set(key(nx, ny), [x, y]);
+      queue.push([nx, ny]);
+    }
+  }
+
+  const route: [number, number][] = [];
+  let at: [number, number] | null = [maze.goal.x, maze.goal.y];
+  while (at) {
+    route.unshift(at);
+    at = prev.get(key(at[0], at[1])) ?? null;
+  }
+  return route;
+};
+
+// Simple bot that steers the ball through the route cell by cell
+const recordWinningRun = (seed: number): Replay => {
+  const maze = buildLevel(seed, testConfig);
+  const sim = createSimulation(maze, testConfig);
+  const recorder = createRecorder(seed, testConfig);
+  const route = findRoute(maze);
+  let target = 1;
+
+  while (!sim.won && sim.tick < 10000) {
+    const [cx, cy] = route[Math.min(target, route.length - 1)];
+    const tx = (cx + 0.5) * SIM_CELL_SIZE;
+    const ty = (cy + 0.5) * SIM_CELL_SIZE;
+    if (Math.hypot(tx - sim.balls[0].ball.x, ty - sim.balls[0].ball.y) < 10) target++;
+
+    const steer = (delta: number, velocity: number) =>
+      Math.max(-1, Math.min(1, delta / 30 - velocity / 200));
+    const input: InputState = quantizeInput({
+      tiltX: steer(tx - sim.balls[0].ball.x, sim.balls[0].ball.vx),
+      tiltY: steer(ty - sim.balls[0].ball.y, sim.balls[0].ball.vy),
+    });
+
+    recorder.record(sim.tick, input);
+    stepSimulation(sim, input);
+  }
+
+  return recorder.finish(sim.tick);
+};
+
+describe('Verifier', () => {
+  const replay = recordWinningRun(20100);
+
+  it('should accept a genuine winning run', () => {
+    const result = verifyReplay(replay);
+
+    expect(result.errors).toEqual([]);
+    expect(result.valid).toBe(true);
+    expect(result.reachedGoal).toBe(true);
+    expect(result.ticks).toBe(replay.ticks);
+    expect(result.resets).toBe(0);
+  });
+
+  it('should reject a run with a faked completion time', () => {
+    const result = verifyReplay({ ...replay, ticks: replay.ticks - 60 });
+
+    expect(result.valid).toBe(false);
+    expect(result.reachedGoal).toBe(true);
+    expect(result.errors[0]).toMatch(/Claimed/);
+  });
+
+  it('should reject a run that never reaches the goal', () => {
+    const result = verifyRun(20100, testConfig, [{ tick: 0, tiltX: -1, tiltY: -1 }], {
+      maxTicks: 600,
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.reachedGoal).toBe(false);
+    expect(result.ticks).toBe(600);
+  });
+
+  it('should reject inputs a client could not have recorded', () => {
+    const outOfRange = verifyRun(20100, testConfig, [{ tick: 0, tiltX: 3, tiltY: 0 }]);
+    const unquantized = verifyRun(20100, testConfig, [{ tick: 0, tiltX: 0.123456, tiltY: 0 }]);
+    const unordered = verifyRun(20100, testConfig, [
+      { tick: 5, tiltX: 0, tiltY: 0 },
+      { tick: 5, tiltX: 1, tiltY: 0 },
+    ]);
+
+    expect(outOfRange.valid).toBe(false);
+    expect(unquantized.valid).toBe(false);
+    expect(unordered.valid).toBe(false);
+  });
+
+  it('should reject runs made with unofficial physics', () => {
+    const result = verifyRun(replay.seed, { ...replay.config, GRAVITY: 5000 }, replay.inputs, {
+      expectedConfig: testConfig,
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('Config GRAVITY is 5000, expected 1200');
+  });
+
+  it('should reject settings the official config leaves out', () => {
+    const config = { ...replay.config, PLACEMENT: 'farthest' as const, TILES: { slope: 2 } };
+    const result = verifyRun(replay.seed, config, replay.inputs, { expectedConfig: testConfig });
+
+    expect(result.errors).toEqual([
+      'Config TILES is {"slope":2}, expected unset',
+      'Config PLACEMENT is "farthest", expected unset',
+    ]);
+  });
+
+  it('should refuse a daily run that re-rolls the board with its own clearance', () => {
+    const result = verifyRun(20100, { ...DAILY_CONFIG, MIN_CLEARANCE: 0.3 }, [], { expectedConfig: DAILY_CONFIG });
+    expect(result.errors).toEqual(['Config MIN_CLEARANCE is 0.3, expected unset']);
+  });
+
+  it('should let the board be mirrored for the screen', () => {
+    const mirrored = verifyRun(replay.seed, { ...replay.config, TRANSPOSE: true }, replay.inputs, {
+      expectedConfig: testConfig,
+    });
+    expect(mirrored.errors.filter((error) => error.startsWith('Config'))).toEqual([]);
+  });
+
+  it('should count hole resets', () => {
+    // Tilting straight down on this board rolls the ball into a hole repeatedly
+    const config = { ...testConfig, GRID_WIDTH: 8,
+  GRID_HEIGHT: 8, HOLE_COUNT: 16 };
+    const result = verifyRun(20100, config, [{ tick: 0, tiltX: 0, tiltY: 1 }], {
+      maxTicks: 1200,
+    });
+
+    expect(result.reachedGoal).toBe(false);
+    expect(result.resets).toBeGreaterThan(0);
+  });
+});
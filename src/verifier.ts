@@ -0,0 +1,141 @@
+import { LevelConfig, pickLevelConfig } from './level';
+import { Replay, ReplayInput, REPLAY_VERSION, playReplay, quantizeInput } from './replay';
+import { TICK_RATE } from './simulation';
+import { generatorVersionFor } from './seed';
+
+/** Longest run we are willing to simulate (10 minutes) */
+export const MAX_VERIFY_TICKS = TICK_RATE * 60 * 10;
+
+/** Settings that only change how the board is shown, so runs may differ in them */
+const DISPLAY_ONLY_KEYS: (keyof LevelConfig)[] = ['TRANSPOSE'];
+
+export interface VerifyOptions {
+  claimedTicks?: number; // Completion time the client reported
+  expectedConfig?: LevelConfig; // Official settings the run must have used
+  maxTicks?: number;
+}
+
+export interface VerificationResult {
+  valid: boolean; // Reached the goal and nothing looked tampered with
+  reachedGoal: boolean;
+  ticks: number; // Ticks simulated (completion time if the goal was reached)
+  resets: number; // Times the ball fell in a hole
+  errors: string[];
+}
+
+/**
+ * Re-simulate a run from its seed and inputs without trusting anything
+ * the client computed. Runs in plain node, no DOM required.
+ */
+export function verifyRun(
+  seed: number,
+  config: LevelConfig,
+  inputs: ReplayInput[],
+  options: VerifyOptions = {}
+): VerificationResult {
+  const maxTicks = options.maxTicks ?? MAX_VERIFY_TICKS;
+  const errors = validateInputs(inputs);
+
+  if (options.expectedConfig) {
+    errors.push(...compareConfig(seed, config, options.expectedConfig));
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, reachedGoal: false, ticks: 0, resets: 0, errors };
+  }
+
+  // Simulate past the last input: the ball keeps rolling on the held tilt
+  const replay: Replay = { version: REPLAY_VERSION, seed, config, ticks: maxTicks, inputs };
+  let resets = 0;
+  const sim = playReplay(replay, (result) => {
+    resets += result.fell;
+  });
+
+  const reachedGoal = sim.won;
+  if (!reachedGoal) {
+    errors.push(`Goal not reached within ${maxTicks} ticks`);
+  }
+
+  if (options.claimedTicks !== undefined && options.claimedTicks !== sim.tick) {
+    errors.push(`Claimed ${options.claimedTicks} ticks but run took ${sim.tick}`);
+  }
+
+  const lastInput = inputs[inputs.length - 1];
+  if (reachedGoal && lastInput && lastInput.tick >= sim.tick) {
+    errors.push(`Input recorded at tick ${lastInput.tick} after the run finished`);
+  }
+
+  return {
+    valid: errors.length === 0,
+    reachedGoal,
+    ticks: sim.tick,
+    resets,
+    errors,
+  };
+}
+
+/**
+ * Verify a replay against the completion time stored in it
+ */
+export function verifyReplay(replay: Replay, options: VerifyOptions = {}): VerificationResult {
+  if (replay.version !== REPLAY_VERSION) {
+    return {
+      valid: false,
+      reachedGoal: false,
+      ticks: 0,
+      resets: 0,
+      errors: [`Unsupported replay version: ${replay.version}`],
+    };
+  }
+
+  return verifyRun(replay.seed, replay.config, replay.inputs, {
+    claimedTicks: replay.ticks,
+    ...options,
+  });
+}
+
+/**
+ * Inputs must be what a real client could have recorded
+ */
+function validateInputs(inputs: ReplayInput[]): string[] {
+  const errors: string[] = [];
+  let lastTick = -1;
+
+  for (const input of inputs) {
+    if (!Number.isInteger(input.tick) || input.tick <= lastTick) {
+      errors.push(`Input ticks must be increasing integers (got ${input.tick} after ${lastTick})`);
+      break;
+    }
+    lastTick = input.tick;
+
+    const snapped = quantizeInput(input);
+    if (snapped.tiltX !== input.tiltX || snapped.tiltY !== input.tiltY) {
+      errors.push(`Input at tick ${input.tick} is out of range or not quantized`);
+      break;
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Every gameplay setting must match, including ones the official config
+ * leaves out: a run can't add tiles or pick its own placement either.
+ * Returns a message per difference.
+ */
+export function compareConfig(seed: number, config: LevelConfig, expected: LevelConfig): string[] {
+  // Older replays leave the generator implied by the seed
+  const resolve = (settings: LevelConfig): LevelConfig => ({
+    ...pickLevelConfig(settings),
+    GENERATOR_VERSION: settings.GENERATOR_VERSION ?? generatorVersionFor(seed),
+  });
+  const actual = resolve(config);
+  const official = resolve(expected);
+  const keys = new Set([...Object.keys(actual), ...Object.keys(official)] as (keyof LevelConfig)[]);
+  const show = (value: unknown) => (value === undefined ? 'unset' : JSON.stringify(value));
+
+  return [...keys]
+    .filter((key) => !DISPLAY_ONLY_KEYS.includes(key))
+    .filter((key) => JSON.stringify(actual[key]) !== JSON.stringify(official[key]))
+    .map((key) => `Config ${key} is ${show(actual[key])}, expected ${show(official[key])}`);
+}